@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  parseFigmaExport,
+  loadFigmaExportFile,
+  listTopLevelComponents,
+  FigmaFileResponse,
+  TOP_LEVEL_DEPTH,
+} from "@/lib/figma";
+import { getCachedFigmaFile } from "@/lib/figma-cache";
+import { parseFigmaUrl, FigmaUrlError } from "@/lib/figma-url";
+import { HttpError } from "@/lib/http";
+
+// Lists the top-level frames/components of a Figma page or COMPONENT_SET for batch generation
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { figmaToken, figmaJson, figmaExportFile, forceRefresh } = body;
+    const figmaUrl: string = body.figmaUrl || "";
+
+    let figmaFile: FigmaFileResponse;
+    if (figmaJson || figmaExportFile) {
+      const parsed = figmaUrl ? parseFigmaUrl(figmaUrl) : undefined;
+      const nodeId = parsed?.nodeId || parsed?.pageId;
+      figmaFile = figmaJson ? parseFigmaExport(figmaJson, nodeId) : await loadFigmaExportFile(figmaExportFile, nodeId);
+    } else {
+      if (!figmaUrl || !figmaToken) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Missing required fields: figmaUrl, figmaToken",
+          },
+          { status: 400 }
+        );
+      }
+
+      const { fileKey, nodeId, pageId } = parseFigmaUrl(figmaUrl);
+      // Listing only needs frame names - a shallow tree avoids downloading the whole page
+      ({ file: figmaFile } = await getCachedFigmaFile(figmaToken, fileKey, nodeId || pageId, {
+        forceRefresh: Boolean(forceRefresh),
+        depth: TOP_LEVEL_DEPTH,
+      }));
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileName: figmaFile.name,
+      components: listTopLevelComponents(figmaFile.document),
+    });
+  } catch (error) {
+    if (error instanceof FigmaUrlError) {
+      return NextResponse.json(
+        { success: false, error: error.message, field: "figmaUrl", errorCode: error.code },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        errorCode: error instanceof HttpError ? error.code : undefined,
+      },
+      { status: error instanceof HttpError && error.status ? error.status : 500 }
+    );
+  }
+}
@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
-import { isOpenAIConfigured } from "@/lib/claude";
+import { getDefaultProvider, getProviderInfo } from "@/lib/llm";
 
 export async function GET() {
+  const providers = getProviderInfo();
   return NextResponse.json({
-    openaiConfigured: isOpenAIConfigured(),
+    aiConfigured: providers.some((p) => p.configured),
+    defaultProvider: getDefaultProvider(),
+    providers,
   });
 }
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createEpicWithStories, EpicStoriesResult, StoryDefinition } from "@/lib/jira";
+import { appendToConfluencePage, generateJiraStoriesSection, toConfluencePageId } from "@/lib/confluence";
+
+function isStoryDefinition(value: unknown): value is StoryDefinition {
+  const story = value as StoryDefinition;
+  return (
+    typeof story === "object" &&
+    story !== null &&
+    typeof story.title === "string" &&
+    story.title.trim().length > 0 &&
+    Array.isArray(story.acceptanceCriteria) &&
+    story.acceptanceCriteria.every((ac) => typeof ac === "string") &&
+    story.acceptanceCriteria.some((ac) => ac.trim().length > 0)
+  );
+}
+
+// Creates the stories picked in the review list after a run with the Epic + Stories structure
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      atlassianEmail,
+      atlassianToken,
+      jiraProject,
+      componentName,
+      epicDescription,
+      stories,
+      figmaUrl,
+      confluenceUrl,
+    } = body;
+
+    // Validate required fields
+    if (!atlassianEmail || !atlassianToken || !jiraProject || !componentName) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required fields: atlassianEmail, atlassianToken, jiraProject, componentName",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(stories) || stories.length === 0 || !stories.every(isStoryDefinition)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "stories must be a non-empty list of { title, acceptanceCriteria } with at least one acceptance criterion each",
+        },
+        { status: 400 }
+      );
+    }
+
+    const auth = {
+      email: atlassianEmail,
+      token: atlassianToken,
+    };
+
+    const references = [
+      figmaUrl ? `Figma: ${figmaUrl}` : "",
+      confluenceUrl ? `FSD: ${confluenceUrl}` : "",
+    ].filter(Boolean);
+
+    const result: EpicStoriesResult = await createEpicWithStories(
+      auth,
+      jiraProject,
+      componentName,
+      epicDescription || `Implementation of ${componentName} component.`,
+      stories,
+      references
+    );
+
+    // No stories can be created without the epic
+    if (!result.epic.key) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.failedTasks[0],
+          result,
+        },
+        { status: 502 }
+      );
+    }
+
+    // The FSD was created before the review, so its Jira links are added now
+    if (confluenceUrl) {
+      try {
+        await appendToConfluencePage(auth, toConfluencePageId(confluenceUrl), generateJiraStoriesSection(result.epic, result.stories));
+        result.completedTasks.push(`FSD: Jira links added - ${confluenceUrl}`);
+      } catch (e) {
+        result.failedTasks.push(`FSD: Jira links - ${e instanceof Error ? e.message : "Unknown error"}`);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { extractComponentData, getFigmaFileVersions, FigmaFileResponse } from "@/lib/figma";
+import { getCachedFigmaFile, getCachedFigmaFileVersion } from "@/lib/figma-cache";
+import { parseFigmaUrl, FigmaUrlError } from "@/lib/figma-url";
+import { diffComponents, formatChangeReport } from "@/lib/diff";
+import { addJiraComment, getIssueUrl } from "@/lib/jira";
+import { appendToConfluencePage, generateChangeReportSection, toConfluencePageId } from "@/lib/confluence";
+import { HttpError } from "@/lib/http";
+
+interface DiffRequest {
+  figmaUrl: string;
+  figmaToken: string;
+  componentName: string;
+  fromVersion: string;
+  toVersion?: string; // defaults to the current version
+  jiraIssueKey?: string; // post the report as a comment
+  confluencePage?: string; // page id or URL to append the report to
+  atlassianEmail?: string;
+  atlassianToken?: string;
+}
+
+// Compares a component between two versions of a Figma file and optionally publishes the change report
+export async function POST(request: NextRequest) {
+  try {
+    const body: DiffRequest = await request.json();
+    const { figmaUrl, figmaToken, componentName, fromVersion, toVersion, jiraIssueKey, confluencePage } = body;
+
+    for (const field of ["figmaUrl", "figmaToken", "componentName", "fromVersion"] as const) {
+      if (!body[field]) {
+        return NextResponse.json({ success: false, error: `Missing required field: ${field}` }, { status: 400 });
+      }
+    }
+    if ((jiraIssueKey || confluencePage) && (!body.atlassianEmail || !body.atlassianToken)) {
+      return NextResponse.json(
+        { success: false, error: "Atlassian email and token are required to publish the report" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseFigmaUrl(figmaUrl);
+    const nodeId = parsed.nodeId || parsed.pageId;
+
+    const [versions, beforeFile, afterFile] = await Promise.all([
+      getFigmaFileVersions(figmaToken, parsed.fileKey),
+      getCachedFigmaFileVersion(figmaToken, parsed.fileKey, nodeId, fromVersion),
+      toVersion
+        ? getCachedFigmaFileVersion(figmaToken, parsed.fileKey, nodeId, toVersion)
+        : getCachedFigmaFile(figmaToken, parsed.fileKey, nodeId).then((r) => r.file),
+    ]);
+
+    const versionLabel = (id: string) => {
+      const version = versions.find((v) => v.id === id);
+      return version?.label ? `"${version.label}"` : `${id}${version ? ` (${version.created_at.slice(0, 10)})` : ""}`;
+    };
+    const extract = (file: FigmaFileResponse) =>
+      extractComponentData(file.document, componentName, { styles: file.styles || {}, variables: {} }, file.components, file.document, file.componentSets);
+
+    const diff = diffComponents(
+      extract(beforeFile),
+      extract(afterFile),
+      versionLabel(fromVersion),
+      toVersion ? versionLabel(toVersion) : "current version"
+    );
+    const report = formatChangeReport(diff);
+
+    const auth = { email: body.atlassianEmail || "", token: body.atlassianToken || "" };
+    let jiraUrl: string | undefined;
+    let confluenceUrl: string | undefined;
+    if (jiraIssueKey) {
+      await addJiraComment(auth, jiraIssueKey.trim(), report);
+      jiraUrl = getIssueUrl(jiraIssueKey.trim());
+    }
+    if (confluencePage) {
+      const section = generateChangeReportSection(diff, new Date().toISOString().slice(0, 10));
+      confluenceUrl = await appendToConfluencePage(auth, toConfluencePageId(confluencePage), section);
+    }
+
+    return NextResponse.json({ success: true, report, changes: diff.changes, jiraUrl, confluenceUrl });
+  } catch (error) {
+    if (error instanceof FigmaUrlError) {
+      return NextResponse.json(
+        { success: false, error: error.message, field: "figmaUrl", errorCode: error.code },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        errorCode: error instanceof HttpError ? error.code : undefined,
+      },
+      { status: error instanceof HttpError && error.status ? error.status : 500 }
+    );
+  }
+}
@@ -1,21 +1,50 @@
 import { NextRequest } from "next/server";
 import {
-  parseFigmaUrl,
-  getFigmaFile,
-  getFigmaImages,
   extractComponentData,
   findBestNodeForScreenshot,
   findResponsiveVariants,
+  buildLayoutSpecs,
+  parseFigmaExport,
+  loadFigmaExportFile,
+  getFigmaLocalVariables,
+  getFigmaImageFills,
+  getFigmaComments,
+  filterComponentComments,
+  findNodeById,
+  graftSubtree,
+  describePruneStats,
+  describeFetchStats,
+  FigmaFetchStats,
+  FigmaFileResponse,
+  FigmaNode,
+  FigmaVariable,
+  FigmaComment,
+  TOP_LEVEL_DEPTH,
 } from "@/lib/figma";
+import { getCachedFigmaFile, getCachedFigmaComponentFile, getCachedFigmaImages } from "@/lib/figma-cache";
+import { parseFigmaUrl, FigmaUrlError } from "@/lib/figma-url";
+import { collectDesignTokens, toStyleDictionary, DesignToken } from "@/lib/tokens";
+import { buildAssetManifest, collectAssetCandidates, AssetManifest } from "@/lib/assets";
+import { auditAccessibility, describeFinding } from "@/lib/accessibility";
 import { createParentTask, createSubTask, getIssueUrl } from "@/lib/jira";
-import { createFSDPage } from "@/lib/confluence";
+import { createFSDPage, toRenderingParameters } from "@/lib/confluence";
 import {
   generateContentWithAI,
   generateEpicDescription,
   convertToFSDData,
+  AIGeneratedContent,
 } from "@/lib/claude";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { describeRetry, withRetryListener, HttpError, RetryEvent } from "@/lib/http";
+import { checkLLMConfigured, isLLMProviderId, supportsVision, LLMProviderId, LLMSelection } from "@/lib/llm";
+import { getCmsProfile, isCmsId, CmsId, CmsProfile } from "@/lib/cms";
+import { generateContentWithRules, generateEpicDescriptionWithRules } from "@/lib/rules";
 
 type GenerationMode = "both" | "jira_only" | "fsd_only";
+// "rules" drafts the content without an AI provider
+type GenerationEngine = "ai" | "rules";
+// "epic_stories" returns the generated stories for review - /api/create-stories creates the Epic and Stories
+type TicketStructure = "subtasks" | "epic_stories";
 
 interface GenerateRequest {
   figmaUrl: string;
@@ -27,8 +56,468 @@ interface GenerateRequest {
   confluenceParentPage?: string;
   componentName: string;
   generationMode?: GenerationMode;
+  ticketStructure?: TicketStructure;
+  // Batch mode: top-level frames/components picked from /api/components
+  batchComponents?: { id: string; name: string }[];
+  batchConcurrency?: number;
   tabletFigmaUrl?: string;
   mobileFigmaUrl?: string;
+  // Ignore cached Figma responses and refetch
+  forceRefresh?: boolean;
+  // AI provider/model for this run - defaults come from LLM_PROVIDER and the provider's *_MODEL env var
+  aiProvider?: LLMProviderId;
+  aiModel?: string;
+  engine?: GenerationEngine;
+  // Target CMS for field types, FSD terms and the BED sub-task - defaults to Sitecore
+  cms?: CmsId;
+  // Offline import: raw /v1/files or /v1/files/:key/nodes JSON, or a file name in FIGMA_EXPORT_DIR
+  figmaJson?: string;
+  figmaExportFile?: string;
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 3;
+const MAX_BATCH_CONCURRENCY = 5;
+
+type SendFn = (data: object) => void;
+
+// Inputs shared by every component processed in a request
+interface PipelineContext {
+  figmaFile: FigmaFileResponse;
+  figmaUrl: string;
+  figmaToken: string;
+  fileKey: string;
+  nodeId?: string;
+  isOfflineImport: boolean;
+  fromCache: boolean;
+  fetchStats: FigmaFetchStats[]; // one entry per Figma file request, empty for cache hits and offline imports
+  forceRefresh: boolean;
+  variables: Record<string, FigmaVariable>;
+  comments: FigmaComment[];
+  llm: LLMSelection;
+  engine: GenerationEngine;
+  cms: CmsProfile;
+  atlassianAuth: { email: string; token: string };
+  jiraProject: string;
+  confluenceSpace: string;
+  confluenceParentPage?: string;
+  generationMode: GenerationMode;
+  ticketStructure: TicketStructure;
+  tabletFigmaUrl?: string;
+  mobileFigmaUrl?: string;
+}
+
+interface PipelineResult {
+  componentName: string;
+  parentKey: string;
+  parentUrl: string;
+  storyKeys: string[];
+  storyUrls: string[];
+  confluenceUrl: string;
+  epicDescription: string;
+  aiContent: AIGeneratedContent;
+  designTokens: DesignToken[];
+  assetManifest: AssetManifest;
+}
+
+// Extract -> screenshots -> AI -> Jira -> Confluence for one component.
+// Step 1 (fetching Figma data) is started by the caller and completed here.
+async function runComponentPipeline(
+  ctx: PipelineContext,
+  componentName: string,
+  root: FigmaNode,
+  send: SendFn
+): Promise<PipelineResult> {
+  const {
+    figmaFile,
+    figmaUrl,
+    figmaToken,
+    fileKey,
+    nodeId,
+    isOfflineImport,
+    fromCache,
+    fetchStats,
+    forceRefresh,
+    variables,
+    comments,
+    llm,
+    engine,
+    cms,
+    atlassianAuth,
+    jiraProject,
+    confluenceSpace,
+    confluenceParentPage,
+    generationMode,
+    ticketStructure,
+    tabletFigmaUrl,
+    mobileFigmaUrl,
+  } = ctx;
+
+  let currentStep = 1;
+
+  const componentData = extractComponentData(
+    root,
+    componentName,
+    { styles: figmaFile.styles || {}, variables },
+    figmaFile.components,
+    figmaFile.document,
+    figmaFile.componentSets
+  );
+  const targetNode = componentData.nodeId ? findNodeById(root, componentData.nodeId) : null;
+  if (targetNode && comments.length > 0) {
+    componentData.comments = filterComponentComments(comments, targetNode);
+  }
+  const designTokens = collectDesignTokens(componentData);
+  const renderingParameters = toRenderingParameters(componentData.properties || [], cms);
+  const accessibilityFindings = auditAccessibility(componentData);
+  const pruned = componentData.pruned ? describePruneStats(componentData.pruned) : "";
+
+  let source = "Figma data fetched";
+  if (isOfflineImport) {
+    source = `Figma export loaded (${figmaFile.name})`;
+  } else if (fromCache) {
+    source = `Figma data loaded from cache (version ${figmaFile.version})`;
+  } else if (fetchStats.length > 0) {
+    source = `Figma data fetched (${describeFetchStats(fetchStats)})`;
+  }
+
+  send({
+    type: "step",
+    step: currentStep,
+    status: "complete",
+    message: `${source}: ${componentData.children.length} elements, ${componentData.sharedComponents?.length || 0} shared components, ${designTokens.length} design tokens, ${renderingParameters.length} rendering parameters, ${accessibilityFindings.length} accessibility finding(s)${pruned ? ` (pruned ${pruned})` : ""}`
+  });
+
+  // Step 2: Get component screenshots (desktop, tablet, mobile)
+  currentStep++;
+  send({ type: "step", step: currentStep, status: "in_progress", message: `Exporting ${componentName} screenshots...` });
+
+  const imageUrls: { desktop?: string; tablet?: string; mobile?: string } = {};
+  let screenshotSummary: string;
+  if (!figmaToken || !fileKey) {
+    // Image export needs the Figma API - not available for offline imports
+    screenshotSummary = "Screenshots skipped (offline import)";
+  } else {
+    try {
+      // Find desktop node from main URL
+      const desktopNodeId = componentData.nodeId || findBestNodeForScreenshot(figmaFile.document, componentName, nodeId);
+
+      // Try to find responsive variants automatically if URLs not provided
+      const autoVariants = findResponsiveVariants(figmaFile.document, componentName);
+
+      // Collect all node IDs to fetch
+      const nodeIdsToFetch: { id: string; type: "desktop" | "tablet" | "mobile" }[] = [];
+
+      // Desktop - use provided or auto-detected
+      if (desktopNodeId) {
+        nodeIdsToFetch.push({ id: desktopNodeId, type: "desktop" });
+      }
+
+      // Tablet - use provided URL or auto-detect
+      if (tabletFigmaUrl) {
+        const { fileKey: tabletFileKey, nodeId: tabletNodeId } = parseFigmaUrl(tabletFigmaUrl);
+        if (tabletFileKey && tabletNodeId) {
+          // Fetch from different file/node if provided
+          try {
+            const tabletImages = await getCachedFigmaImages(figmaToken, tabletFileKey, [tabletNodeId], "png", 2, { forceRefresh });
+            imageUrls.tablet = tabletImages.images[tabletNodeId];
+          } catch (e) {
+            console.error("Failed to fetch tablet image:", e);
+          }
+        }
+      } else if (autoVariants.tablet) {
+        nodeIdsToFetch.push({ id: autoVariants.tablet, type: "tablet" });
+      }
+
+      // Mobile - use provided URL or auto-detect
+      if (mobileFigmaUrl) {
+        const { fileKey: mobileFileKey, nodeId: mobileNodeId } = parseFigmaUrl(mobileFigmaUrl);
+        if (mobileFileKey && mobileNodeId) {
+          try {
+            const mobileImages = await getCachedFigmaImages(figmaToken, mobileFileKey, [mobileNodeId], "png", 2, { forceRefresh });
+            imageUrls.mobile = mobileImages.images[mobileNodeId];
+          } catch (e) {
+            console.error("Failed to fetch mobile image:", e);
+          }
+        }
+      } else if (autoVariants.mobile) {
+        nodeIdsToFetch.push({ id: autoVariants.mobile, type: "mobile" });
+      }
+
+      // Fetch all images from main file in one request
+      if (nodeIdsToFetch.length > 0) {
+        const ids = nodeIdsToFetch.map(n => n.id);
+        const images = await getCachedFigmaImages(figmaToken, fileKey, ids, "png", 2, { forceRefresh, version: figmaFile.version });
+
+        for (const node of nodeIdsToFetch) {
+          const url = images.images[node.id];
+          if (url) {
+            imageUrls[node.type] = url;
+          }
+        }
+      }
+
+      // Auto-detected tablet/mobile frames carry a confidence score, e.g. "tablet 86% (820px wide, name)"
+      const exported = (Object.keys(imageUrls) as (keyof typeof imageUrls)[]).filter((k) => imageUrls[k]);
+      const labels = exported.map((k) => {
+        const match = k !== "desktop" && nodeIdsToFetch.some((n) => n.type === k) ? autoVariants.matches[k] : undefined;
+        return match ? `${k} ${Math.round(match.confidence * 100)}% (${match.reasons.join(", ")})` : k;
+      });
+      screenshotSummary = `${exported.length} screenshot(s) exported (${labels.join(", ")})`;
+    } catch (imgError) {
+      screenshotSummary = "Screenshots skipped (optional)";
+    }
+  }
+
+  // Logos, icons and image fills for authors - part of the screenshot step
+  const assetCandidates = collectAssetCandidates(componentData);
+  let assetManifest = buildAssetManifest(componentName, assetCandidates);
+  if (assetCandidates.length > 0 && figmaToken && fileKey) {
+    send({ type: "step", step: currentStep, status: "in_progress", message: `Exporting ${assetCandidates.length} asset(s)...` });
+    try {
+      const vectorIds = assetCandidates.filter((a) => a.nodeId).map((a) => a.nodeId!);
+      const [fills, svgs] = await Promise.all([
+        assetCandidates.some((a) => a.imageRef) ? getFigmaImageFills(figmaToken, fileKey) : null,
+        vectorIds.length > 0 ? getCachedFigmaImages(figmaToken, fileKey, vectorIds, "svg", 1, { forceRefresh, version: figmaFile.version }) : null,
+      ]);
+      assetManifest = buildAssetManifest(componentName, assetCandidates, fills?.meta.images, svgs?.images);
+    } catch (assetError) {
+      console.error("Failed to export assets:", assetError);
+    }
+    screenshotSummary += `, ${assetManifest.assets.filter((a) => a.url).length}/${assetManifest.assets.length} asset(s) exported`;
+  }
+
+  send({ type: "step", step: currentStep, status: "complete", message: screenshotSummary });
+
+  // Step 3: Deep AI Analysis - screenshots go along as images when the model has vision
+  currentStep++;
+  let aiContent: AIGeneratedContent;
+  if (engine === "rules") {
+    send({ type: "step", step: currentStep, status: "in_progress", message: `Rule-based analysis (${cms.label} structure, no AI)...` });
+    aiContent = generateContentWithRules(componentData, cms);
+  } else {
+    const screenshotCount = Object.values(imageUrls).filter(Boolean).length;
+    const visionInput = screenshotCount === 0 ? "" : supportsVision(llm) ? `, ${screenshotCount} screenshot(s)` : ", text only - model has no vision";
+    send({ type: "step", step: currentStep, status: "in_progress", message: `Deep AI Analysis (${cms.label} structure${visionInput})...` });
+
+    aiContent = await generateContentWithAI(componentData, figmaUrl, {
+      llm,
+      cms,
+      screenshots: imageUrls,
+      onRepair: (errors, attempt) =>
+        send({
+          type: "step",
+          step: currentStep,
+          status: "in_progress",
+          message: `AI response failed validation (${errors.length} error(s)), asking for a fix (attempt ${attempt + 1})...`,
+        }),
+      // Large components are split up - report each section as it starts
+      onSection: (name, index, total) =>
+        send({ type: "step", step: currentStep, status: "in_progress", message: `Analysing section ${index + 1}/${total}: ${name}...` }),
+    });
+  }
+
+  send({
+    type: "step",
+    step: currentStep,
+    status: "complete",
+    message: `${engine === "rules" ? "Rule-based" : "Deep"} analysis complete: ${aiContent.fieldRequirements.length} fields identified${
+      aiContent.coverage?.sections.length ? ` across ${aiContent.coverage.sections.length} merged sections` : ""
+    }${aiContent.coverage?.omitted.length ? ` (${aiContent.coverage.totalElements - aiContent.coverage.analyzedElements} elements omitted - noted in the FSD)` : ""}`
+  });
+  if (aiContent.warnings) {
+    const source = engine === "rules" ? "Rule-based draft" : "AI output";
+    send({ type: "warning", message: `${source} has ${aiContent.warnings.length} warning(s)`, warnings: aiContent.warnings });
+  }
+
+  // Step 4: Generate description
+  currentStep++;
+  send({ type: "step", step: currentStep, status: "in_progress", message: "Generating component description..." });
+
+  const epicDescription = engine === "rules"
+    ? generateEpicDescriptionWithRules(componentName, aiContent, figmaUrl)
+    : await generateEpicDescription(componentName, componentData, figmaUrl, llm);
+
+  send({ type: "step", step: currentStep, status: "complete", message: "Description ready" });
+
+  // Variables for results
+  let parentKey = "";
+  let parentUrl = "";
+  const storyUrls: string[] = [];
+  const storyKeys: string[] = [];
+  let confluenceUrl = "";
+
+  // Epic + Stories: nothing is created yet - the stories go back to the form for review
+  if ((generationMode === "both" || generationMode === "jira_only") && ticketStructure === "epic_stories") {
+    currentStep++;
+    send({
+      type: "step",
+      step: currentStep,
+      status: "complete",
+      message: `${aiContent.stories.length} stories ready for review - select which to create under a new Epic${generationMode === "both" ? " (their links are added to the FSD when created)" : ""}`,
+    });
+  } else if (generationMode === "both" || generationMode === "jira_only") {
+    // Jira ticket creation (if mode is both or jira_only)
+    // Step 5: Create Parent Jira Ticket
+    currentStep++;
+    send({ type: "step", step: currentStep, status: "in_progress", message: "Creating Parent Ticket..." });
+
+    // 4-line description based on FSD
+    const parentDescription = `${aiContent.description}\nFigma: ${figmaUrl}\nIncludes: FED, BED, QA sub-tasks\nRefer to FSD for detailed requirements.`;
+    const parent = await createParentTask(atlassianAuth, jiraProject, componentName, parentDescription, "Story");
+    parentKey = parent.key;
+    parentUrl = getIssueUrl(parent.key);
+
+    send({
+      type: "step",
+      step: currentStep,
+      status: "complete",
+      message: `Parent created: ${parent.key}`,
+      data: { epicKey: parent.key, epicUrl: parentUrl }
+    });
+
+    // Step 6: Create FED/BED/QA Sub-tasks
+    currentStep++;
+    send({ type: "step", step: currentStep, status: "in_progress", message: "Creating FED/BED/QA Sub-tasks..." });
+
+    // FED Sub-task - 4 lines
+    const fedDescription = `Frontend implementation of ${componentName}.\n${aiContent.description}\nFigma: ${figmaUrl}\nImplement responsive UI, accessibility (WCAG 2.1), and component tests.`;
+
+    try {
+      const fed = await createSubTask(atlassianAuth, jiraProject, parent.key, `${componentName} - FED`, fedDescription);
+      const fedUrl = getIssueUrl(fed.key);
+      storyUrls.push(fedUrl);
+      storyKeys.push(fed.key);
+      send({
+        type: "story_created",
+        storyKey: fed.key,
+        storyUrl: fedUrl,
+        storyNumber: 1,
+        totalStories: 3,
+        title: `${componentName} - FED`
+      });
+    } catch (fedError) {
+      send({
+        type: "story_error",
+        storyNumber: 1,
+        title: `${componentName} - FED`,
+        error: fedError instanceof Error ? fedError.message : "Failed to create FED sub-task"
+      });
+    }
+
+    // BED Sub-task - 4 lines
+    const bedDescription = `Backend implementation for ${componentName}.\n${aiContent.description}\n${cms.backendTasks.join("\n")}`;
+
+    try {
+      const bed = await createSubTask(atlassianAuth, jiraProject, parent.key, `${componentName} - BED`, bedDescription);
+      const bedUrl = getIssueUrl(bed.key);
+      storyUrls.push(bedUrl);
+      storyKeys.push(bed.key);
+      send({
+        type: "story_created",
+        storyKey: bed.key,
+        storyUrl: bedUrl,
+        storyNumber: 2,
+        totalStories: 3,
+        title: `${componentName} - BED`
+      });
+    } catch (bedError) {
+      send({
+        type: "story_error",
+        storyNumber: 2,
+        title: `${componentName} - BED`,
+        error: bedError instanceof Error ? bedError.message : "Failed to create BED sub-task"
+      });
+    }
+
+    // QA Sub-task - 4 lines
+    let qaDescription = `QA testing for ${componentName}.\n${aiContent.description}\nTest functional requirements, cross-browser, responsive, and accessibility.\nVerify against FSD acceptance criteria.`;
+    if (accessibilityFindings.length > 0) {
+      qaDescription += `\n\nAccessibility checks (from the design audit):\n${accessibilityFindings.map((f) => `- ${describeFinding(f)}`).join("\n")}`;
+    }
+
+    try {
+      const qa = await createSubTask(atlassianAuth, jiraProject, parent.key, `${componentName} - QA`, qaDescription);
+      const qaUrl = getIssueUrl(qa.key);
+      storyUrls.push(qaUrl);
+      storyKeys.push(qa.key);
+      send({
+        type: "story_created",
+        storyKey: qa.key,
+        storyUrl: qaUrl,
+        storyNumber: 3,
+        totalStories: 3,
+        title: `${componentName} - QA`
+      });
+    } catch (qaError) {
+      send({
+        type: "story_error",
+        storyNumber: 3,
+        title: `${componentName} - QA`,
+        error: qaError instanceof Error ? qaError.message : "Failed to create QA sub-task"
+      });
+    }
+
+    send({
+      type: "step",
+      step: currentStep,
+      status: "complete",
+      message: `${storyKeys.length} Sub-tasks created: ${storyKeys.join(", ")}`,
+      data: { storyKeys, storyUrls }
+    });
+  }
+
+  // Confluence FSD creation (if mode is both or fsd_only)
+  if (generationMode === "both" || generationMode === "fsd_only") {
+    currentStep++;
+    send({ type: "step", step: currentStep, status: "in_progress", message: "Creating Confluence FSD..." });
+
+    const fsdData = convertToFSDData(aiContent, componentName, figmaUrl, parentUrl || "", storyUrls);
+    fsdData.cms = cms.id;
+    if (imageUrls.desktop || imageUrls.tablet || imageUrls.mobile) {
+      fsdData.imageUrls = imageUrls;
+    }
+    fsdData.layoutSpecs = buildLayoutSpecs(componentData);
+    fsdData.designTokens = designTokens;
+    fsdData.renderingParameters = renderingParameters;
+    fsdData.sharedComponents = componentData.sharedComponents;
+    fsdData.assets = assetManifest.assets;
+    fsdData.designerComments = componentData.comments;
+    fsdData.accessibilityFindings = accessibilityFindings;
+
+    confluenceUrl = await createFSDPage(atlassianAuth, confluenceSpace, fsdData, confluenceParentPage);
+
+    send({
+      type: "step",
+      step: currentStep,
+      status: "complete",
+      message: "FSD created in Confluence",
+      data: { confluenceUrl }
+    });
+  }
+
+  return {
+    componentName,
+    parentKey,
+    parentUrl,
+    storyKeys,
+    storyUrls,
+    confluenceUrl,
+    epicDescription,
+    aiContent,
+    designTokens,
+    assetManifest,
+  };
+}
+
+// Keys and URLs created for one component, for the batch summary
+function summarizeResult(result: PipelineResult) {
+  return {
+    componentName: result.componentName,
+    jiraKey: result.parentKey || undefined,
+    jiraUrl: result.parentUrl || undefined,
+    jiraSubtaskKeys: result.storyKeys,
+    confluenceUrl: result.confluenceUrl || undefined,
+  };
 }
 
 function createSSEMessage(data: object): string {
@@ -43,15 +532,28 @@ export async function POST(request: NextRequest) {
       const send = (data: object) => {
         controller.enqueue(encoder.encode(createSSEMessage(data)));
       };
+      // Surface rate-limit/backoff waits so a slow run does not look stuck
+      const sendRetry = (event: RetryEvent) =>
+        send({ type: "retry", service: event.service, message: describeRetry(event) });
 
       try {
         const body: GenerateRequest = await request.json();
         const generationMode: GenerationMode = body.generationMode || "both";
 
-        // Validate required fields based on generation mode
-        const baseRequiredFields = ["figmaUrl", "figmaToken", "atlassianEmail", "atlassianToken", "componentName"];
+        const isOfflineImport = Boolean(body.figmaJson || body.figmaExportFile);
+        const isBatch = Boolean(body.batchComponents && body.batchComponents.length > 0);
 
-        let requiredFields = [...baseRequiredFields];
+        // Validate required fields based on generation mode
+        // Figma URL and token are not needed when importing a saved export
+        const baseRequiredFields = isOfflineImport
+          ? ["atlassianEmail", "atlassianToken"]
+          : ["figmaUrl", "figmaToken", "atlassianEmail", "atlassianToken"];
+
+        const requiredFields = [...baseRequiredFields];
+        // Batch mode takes component names from the selected nodes
+        if (!isBatch) {
+          requiredFields.push("componentName");
+        }
         if (generationMode === "both" || generationMode === "jira_only") {
           requiredFields.push("jiraProject");
         }
@@ -67,14 +569,41 @@ export async function POST(request: NextRequest) {
           }
         }
 
-        if (!process.env.OPENAI_API_KEY) {
-          send({ type: "error", message: "OpenAI API key not configured" });
+        if (body.aiProvider && !isLLMProviderId(body.aiProvider)) {
+          send({ type: "error", message: `Unknown AI provider: ${body.aiProvider}` });
+          controller.close();
+          return;
+        }
+        if (body.cms && !isCmsId(body.cms)) {
+          send({ type: "error", message: `Unknown CMS profile: ${body.cms}` });
+          controller.close();
+          return;
+        }
+        if (body.ticketStructure && body.ticketStructure !== "subtasks" && body.ticketStructure !== "epic_stories") {
+          send({ type: "error", message: `Unknown ticket structure: ${body.ticketStructure}` });
+          controller.close();
+          return;
+        }
+        if (body.ticketStructure === "epic_stories" && isBatch) {
+          send({ type: "error", message: "Epic + Stories needs a review of each component's stories - run components one at a time" });
+          controller.close();
+          return;
+        }
+        if (body.engine && body.engine !== "ai" && body.engine !== "rules") {
+          send({ type: "error", message: `Unknown generation engine: ${body.engine}` });
+          controller.close();
+          return;
+        }
+        const engine: GenerationEngine = body.engine || "ai";
+        const llm: LLMSelection = { provider: body.aiProvider, model: body.aiModel?.trim() || undefined };
+        const llmError = engine === "ai" ? checkLLMConfigured(llm) : null;
+        if (llmError) {
+          send({ type: "error", message: llmError });
           controller.close();
           return;
         }
 
         const {
-          figmaUrl,
           figmaToken,
           atlassianEmail,
           atlassianToken,
@@ -84,280 +613,222 @@ export async function POST(request: NextRequest) {
           componentName,
           tabletFigmaUrl,
           mobileFigmaUrl,
+          figmaJson,
+          figmaExportFile,
         } = body;
+        const figmaUrl = body.figmaUrl || "";
 
         const atlassianAuth = { email: atlassianEmail, token: atlassianToken };
 
-        // Step tracking based on generation mode
-        let currentStep = 0;
+        // Reject malformed links before anything is fetched, naming the field so the form can show it inline
+        const urlFields = { figmaUrl, tabletFigmaUrl, mobileFigmaUrl };
+        for (const [field, value] of Object.entries(urlFields)) {
+          if (!value) continue;
+          try {
+            parseFigmaUrl(value);
+          } catch (e) {
+            if (!(e instanceof FigmaUrlError)) throw e;
+            send({ type: "error", message: e.message, field, errorCode: e.code });
+            controller.close();
+            return;
+          }
+        }
 
         // Step 1: Parse Figma URL and fetch data
-        currentStep++;
-        send({ type: "step", step: currentStep, status: "in_progress", message: "Fetching Figma data..." });
-
-        const { fileKey, nodeId } = parseFigmaUrl(figmaUrl);
-        if (!fileKey) {
-          send({ type: "error", message: "Invalid Figma URL - could not extract file key" });
-          controller.close();
-          return;
+        if (isBatch) {
+          send({ type: "batch_status", message: "Fetching Figma data..." });
+        } else {
+          send({ type: "step", step: 1, status: "in_progress", message: "Fetching Figma data..." });
         }
 
-        const figmaFile = await getFigmaFile(figmaToken, fileKey, nodeId);
-        const componentData = extractComponentData(figmaFile.document, componentName);
-
-        send({
-          type: "step",
-          step: currentStep,
-          status: "complete",
-          message: `Figma data fetched: ${componentData.children.length} elements found`
-        });
-
-        // Step 2: Get component screenshots (desktop, tablet, mobile)
-        currentStep++;
-        send({ type: "step", step: currentStep, status: "in_progress", message: `Exporting ${componentName} screenshots...` });
-
-        const imageUrls: { desktop?: string; tablet?: string; mobile?: string } = {};
-        try {
-          // Find desktop node from main URL
-          const desktopNodeId = componentData.nodeId || findBestNodeForScreenshot(figmaFile.document, componentName, nodeId);
-
-          // Try to find responsive variants automatically if URLs not provided
-          const autoVariants = findResponsiveVariants(figmaFile.document, componentName);
-
-          // Collect all node IDs to fetch
-          const nodeIdsToFetch: { id: string; type: "desktop" | "tablet" | "mobile" }[] = [];
-
-          // Desktop - use provided or auto-detected
-          if (desktopNodeId) {
-            nodeIdsToFetch.push({ id: desktopNodeId, type: "desktop" });
+        let fileKey = "";
+        let nodeId: string | undefined;
+        let figmaFile: FigmaFileResponse;
+        let fromCache = false;
+        const fetchStats: FigmaFetchStats[] = [];
+        const forceRefresh = Boolean(body.forceRefresh);
+
+        if (isOfflineImport) {
+          // The URL is optional here - only used to pick a node and for reference links
+          if (figmaUrl) {
+            const parsed = parseFigmaUrl(figmaUrl);
+            fileKey = parsed.fileKey;
+            nodeId = parsed.nodeId || parsed.pageId;
           }
-
-          // Tablet - use provided URL or auto-detect
-          if (tabletFigmaUrl) {
-            const { fileKey: tabletFileKey, nodeId: tabletNodeId } = parseFigmaUrl(tabletFigmaUrl);
-            if (tabletFileKey && tabletNodeId) {
-              // Fetch from different file/node if provided
-              try {
-                const tabletImages = await getFigmaImages(figmaToken, tabletFileKey, [tabletNodeId]);
-                imageUrls.tablet = tabletImages.images[tabletNodeId];
-              } catch (e) {
-                console.error("Failed to fetch tablet image:", e);
-              }
-            }
-          } else if (autoVariants.tablet) {
-            nodeIdsToFetch.push({ id: autoVariants.tablet, type: "tablet" });
+          figmaFile = figmaJson
+            ? parseFigmaExport(figmaJson, nodeId)
+            : await loadFigmaExportFile(figmaExportFile!, nodeId);
+        } else {
+          const parsed = parseFigmaUrl(figmaUrl);
+          fileKey = parsed.fileKey;
+          nodeId = parsed.nodeId || parsed.pageId;
+
+          // Running totals after each request - large files can take several stages
+          const onFetched = (stats: FigmaFetchStats) => {
+            fetchStats.push(stats);
+            const message = `Fetching Figma data... ${describeFetchStats(fetchStats)} so far`;
+            send(isBatch ? { type: "batch_status", message } : { type: "step", step: 1, status: "in_progress", message });
+          };
+
+          // Without a frame link, find the component in a shallow tree rather than downloading the whole file or page
+          const located = !isBatch && !parsed.nodeId && componentName
+            ? await withRetryListener(sendRetry, () =>
+                getCachedFigmaComponentFile(figmaToken, fileKey, componentName, parsed.pageId, { forceRefresh, onFetched })
+              )
+            : null;
+
+          if (located) {
+            ({ file: figmaFile, fromCache } = located);
+          } else {
+            // Batch runs only need the frame list here - each component's subtree is fetched on its own
+            const depth = isBatch ? TOP_LEVEL_DEPTH : undefined;
+            ({ file: figmaFile, fromCache } = await withRetryListener(sendRetry, () =>
+              getCachedFigmaFile(figmaToken, fileKey, nodeId, { forceRefresh, onFetched, depth })
+            ));
           }
+        }
 
-          // Mobile - use provided URL or auto-detect
-          if (mobileFigmaUrl) {
-            const { fileKey: mobileFileKey, nodeId: mobileNodeId } = parseFigmaUrl(mobileFigmaUrl);
-            if (mobileFileKey && mobileNodeId) {
-              try {
-                const mobileImages = await getFigmaImages(figmaToken, mobileFileKey, [mobileNodeId]);
-                imageUrls.mobile = mobileImages.images[mobileNodeId];
-              } catch (e) {
-                console.error("Failed to fetch mobile image:", e);
-              }
-            }
-          } else if (autoVariants.mobile) {
-            nodeIdsToFetch.push({ id: autoVariants.mobile, type: "mobile" });
+        // Local variables resolve bound values into token names - optional, Enterprise plans only
+        let variables: Record<string, FigmaVariable> = {};
+        if (figmaToken && fileKey) {
+          try {
+            variables = (await withRetryListener(sendRetry, () => getFigmaLocalVariables(figmaToken, fileKey))).meta.variables;
+          } catch (e) {
+            console.error("Figma variables unavailable, using styles only:", e);
           }
+        }
 
-          // Fetch all images from main file in one request
-          if (nodeIdsToFetch.length > 0) {
-            const ids = nodeIdsToFetch.map(n => n.id);
-            const images = await getFigmaImages(figmaToken, fileKey, ids);
-
-            for (const node of nodeIdsToFetch) {
-              const url = images.images[node.id];
-              if (url) {
-                imageUrls[node.type] = url;
-              }
-            }
+        // Designer comments - optional context, fetched once for every component in the run
+        let comments: FigmaComment[] = [];
+        if (figmaToken && fileKey) {
+          try {
+            comments = await withRetryListener(sendRetry, () => getFigmaComments(figmaToken, fileKey));
+          } catch (e) {
+            console.error("Figma comments unavailable:", e);
           }
-
-          const screenshotCount = Object.values(imageUrls).filter(Boolean).length;
-          send({
-            type: "step",
-            step: currentStep,
-            status: "complete",
-            message: `${screenshotCount} screenshot(s) exported (${Object.keys(imageUrls).filter(k => imageUrls[k as keyof typeof imageUrls]).join(", ")})`
-          });
-        } catch (imgError) {
-          send({ type: "step", step: currentStep, status: "complete", message: "Screenshots skipped (optional)" });
         }
 
-        // Step 3: Deep AI Analysis
-        currentStep++;
-        send({ type: "step", step: currentStep, status: "in_progress", message: "Deep AI Analysis (Sitecore structure)..." });
-
-        const aiContent = await generateContentWithAI(componentData, figmaUrl);
-
-        send({
-          type: "step",
-          step: currentStep,
-          status: "complete",
-          message: `Deep analysis complete: ${aiContent.fieldRequirements.length} fields identified`
-        });
-
-        // Step 4: Generate description
-        currentStep++;
-        send({ type: "step", step: currentStep, status: "in_progress", message: "Generating component description..." });
-
-        const epicDescription = await generateEpicDescription(componentName, componentData, figmaUrl);
-
-        send({ type: "step", step: currentStep, status: "complete", message: "Description ready" });
-
-        // Variables for results
-        let parentKey = "";
-        let parentUrl = "";
-        const storyUrls: string[] = [];
-        const storyKeys: string[] = [];
-        let confluenceUrl = "";
-
-        // Jira ticket creation (if mode is both or jira_only)
-        if (generationMode === "both" || generationMode === "jira_only") {
-          // Step 5: Create Parent Jira Ticket
-          currentStep++;
-          send({ type: "step", step: currentStep, status: "in_progress", message: "Creating Parent Ticket..." });
+        const ctx: PipelineContext = {
+          figmaFile,
+          figmaUrl,
+          figmaToken,
+          fileKey,
+          nodeId,
+          isOfflineImport,
+          fromCache,
+          fetchStats,
+          forceRefresh,
+          variables,
+          comments,
+          llm,
+          engine,
+          cms: getCmsProfile(body.cms),
+          atlassianAuth,
+          jiraProject,
+          confluenceSpace,
+          confluenceParentPage,
+          generationMode,
+          ticketStructure: body.ticketStructure || "subtasks",
+          tabletFigmaUrl,
+          mobileFigmaUrl,
+        };
 
-          // 4-line description based on FSD
-          const parentDescription = `${aiContent.description}\nFigma: ${figmaUrl}\nIncludes: FED, BED, QA sub-tasks\nRefer to FSD for detailed requirements.`;
-          const parent = await createParentTask(atlassianAuth, jiraProject, componentName, parentDescription, "Story");
-          parentKey = parent.key;
-          parentUrl = getIssueUrl(parent.key);
+        if (isBatch) {
+          const components = body.batchComponents!;
+          const concurrency = Math.min(
+            Math.max(body.batchConcurrency || DEFAULT_BATCH_CONCURRENCY, 1),
+            MAX_BATCH_CONCURRENCY
+          );
 
           send({
-            type: "step",
-            step: currentStep,
-            status: "complete",
-            message: `Parent created: ${parent.key}`,
-            data: { epicKey: parent.key, epicUrl: parentUrl }
+            type: "batch_start",
+            total: components.length,
+            concurrency,
+            components: components.map((c) => c.name),
           });
 
-          // Step 6: Create FED/BED/QA Sub-tasks
-          currentStep++;
-          send({ type: "step", step: currentStep, status: "in_progress", message: "Creating FED/BED/QA Sub-tasks..." });
-
-          // FED Sub-task - 4 lines
-          const fedDescription = `Frontend implementation of ${componentName}.\n${aiContent.description}\nFigma: ${figmaUrl}\nImplement responsive UI, accessibility (WCAG 2.1), and component tests.`;
-
-          try {
-            const fed = await createSubTask(atlassianAuth, jiraProject, parent.key, `${componentName} - FED`, fedDescription);
-            const fedUrl = getIssueUrl(fed.key);
-            storyUrls.push(fedUrl);
-            storyKeys.push(fed.key);
-            send({
-              type: "story_created",
-              storyKey: fed.key,
-              storyUrl: fedUrl,
-              storyNumber: 1,
-              totalStories: 3,
-              title: `${componentName} - FED`
-            });
-          } catch (fedError) {
-            send({
-              type: "story_error",
-              storyNumber: 1,
-              title: `${componentName} - FED`,
-              error: fedError instanceof Error ? fedError.message : "Failed to create FED sub-task"
-            });
-          }
-
-          // BED Sub-task - 4 lines
-          const bedDescription = `Backend implementation for ${componentName}.\n${aiContent.description}\nCreate Sitecore templates, fields, and data sources.\nImplement content resolver and API integration.`;
+          const results = await mapWithConcurrency(components, concurrency, async (component, index) => {
+            // Tag every pipeline event with the component it belongs to
+            const sendItem: SendFn = (event) => send({ type: "batch_item", index, componentName: component.name, event });
 
-          try {
-            const bed = await createSubTask(atlassianAuth, jiraProject, parent.key, `${componentName} - BED`, bedDescription);
-            const bedUrl = getIssueUrl(bed.key);
-            storyUrls.push(bedUrl);
-            storyKeys.push(bed.key);
-            send({
-              type: "story_created",
-              storyKey: bed.key,
-              storyUrl: bedUrl,
-              storyNumber: 2,
-              totalStories: 3,
-              title: `${componentName} - BED`
-            });
-          } catch (bedError) {
-            send({
-              type: "story_error",
-              storyNumber: 2,
-              title: `${componentName} - BED`,
-              error: bedError instanceof Error ? bedError.message : "Failed to create BED sub-task"
-            });
-          }
+            try {
+              const onRetry = (event: RetryEvent) => sendItem({ type: "retry", service: event.service, message: describeRetry(event) });
 
-          // QA Sub-task - 4 lines
-          const qaDescription = `QA testing for ${componentName}.\n${aiContent.description}\nTest functional requirements, cross-browser, responsive, and accessibility.\nVerify against FSD acceptance criteria.`;
+              // The shallow tree has no layers below the frame - graft in this component's full subtree
+              let itemFile = figmaFile;
+              if (!isOfflineImport) {
+                const subtree = await withRetryListener(onRetry, () =>
+                  getCachedFigmaFile(figmaToken, fileKey, component.id, { forceRefresh })
+                );
+                itemFile = graftSubtree(figmaFile, subtree.file);
+              }
 
-          try {
-            const qa = await createSubTask(atlassianAuth, jiraProject, parent.key, `${componentName} - QA`, qaDescription);
-            const qaUrl = getIssueUrl(qa.key);
-            storyUrls.push(qaUrl);
-            storyKeys.push(qa.key);
-            send({
-              type: "story_created",
-              storyKey: qa.key,
-              storyUrl: qaUrl,
-              storyNumber: 3,
-              totalStories: 3,
-              title: `${componentName} - QA`
-            });
-          } catch (qaError) {
-            send({
-              type: "story_error",
-              storyNumber: 3,
-              title: `${componentName} - QA`,
-              error: qaError instanceof Error ? qaError.message : "Failed to create QA sub-task"
-            });
-          }
+              const root = findNodeById(itemFile.document, component.id);
+              if (!root) {
+                throw new Error(`Node ${component.id} not found in the Figma data`);
+              }
 
-          send({
-            type: "step",
-            step: currentStep,
-            status: "complete",
-            message: `${storyKeys.length} Sub-tasks created: ${storyKeys.join(", ")}`,
-            data: { storyKeys, storyUrls }
+              // Tablet/mobile URLs only apply to a single component - batch relies on auto-detection
+              const result = await withRetryListener(onRetry, () =>
+                runComponentPipeline(
+                  { ...ctx, figmaFile: itemFile, tabletFigmaUrl: undefined, mobileFigmaUrl: undefined },
+                  component.name,
+                  root,
+                  sendItem
+                )
+              );
+              send({
+                type: "batch_item_complete",
+                index,
+                componentName: component.name,
+                jiraKey: result.parentKey || undefined,
+                jiraUrl: result.parentUrl || undefined,
+                confluenceUrl: result.confluenceUrl || undefined,
+              });
+              return { ...summarizeResult(result), success: true };
+            } catch (error) {
+              const message = error instanceof Error ? error.message : "An unknown error occurred";
+              send({ type: "batch_item_error", index, componentName: component.name, message });
+              return { componentName: component.name, success: false, error: message };
+            }
           });
-        }
-
-        // Confluence FSD creation (if mode is both or fsd_only)
-        if (generationMode === "both" || generationMode === "fsd_only") {
-          currentStep++;
-          send({ type: "step", step: currentStep, status: "in_progress", message: "Creating Confluence FSD..." });
-
-          const fsdData = convertToFSDData(aiContent, componentName, figmaUrl, parentUrl || "", storyUrls);
-          if (imageUrls.desktop || imageUrls.tablet || imageUrls.mobile) {
-            fsdData.imageUrls = imageUrls;
-          }
-
-          confluenceUrl = await createFSDPage(atlassianAuth, confluenceSpace, fsdData, confluenceParentPage);
 
           send({
-            type: "step",
-            step: currentStep,
-            status: "complete",
-            message: "FSD created in Confluence",
-            data: { confluenceUrl }
+            type: "batch_complete",
+            success: true,
+            succeeded: results.filter((r) => r.success).length,
+            failed: results.filter((r) => !r.success).length,
+            results,
           });
+
+          controller.close();
+          return;
         }
 
+        const result = await withRetryListener(sendRetry, () =>
+          runComponentPipeline(ctx, componentName, figmaFile.document, send)
+        );
+
         // Final success
         send({
           type: "complete",
           success: true,
-          jiraEpicKey: parentKey || undefined,
-          jiraEpicUrl: parentUrl || undefined,
-          jiraStoryKeys: storyKeys.length > 0 ? storyKeys : undefined,
-          jiraStoryUrls: storyUrls.length > 0 ? storyUrls : undefined,
-          confluenceUrl: confluenceUrl || undefined,
+          jiraEpicKey: result.parentKey || undefined,
+          jiraEpicUrl: result.parentUrl || undefined,
+          jiraStoryKeys: result.storyKeys.length > 0 ? result.storyKeys : undefined,
+          jiraStoryUrls: result.storyUrls.length > 0 ? result.storyUrls : undefined,
+          confluenceUrl: result.confluenceUrl || undefined,
           aiAnalysis: {
-            storiesGenerated: storyKeys.length,
-            requirementsGenerated: aiContent.endUserRequirements.length,
-            fieldsIdentified: aiContent.fieldRequirements.length,
+            storiesGenerated: ctx.ticketStructure === "epic_stories" ? result.aiContent.stories.length : result.storyKeys.length,
+            requirementsGenerated: result.aiContent.endUserRequirements.length,
+            fieldsIdentified: result.aiContent.fieldRequirements.length,
           },
+          designTokens: result.designTokens.length > 0 ? toStyleDictionary(result.designTokens) : undefined,
+          assetManifest: result.assetManifest.assets.length > 0 ? result.assetManifest : undefined,
+          // Epic + Stories: created from the review list via /api/create-stories
+          pendingStories: ctx.ticketStructure === "epic_stories" && generationMode !== "fsd_only"
+            ? { epicDescription: result.epicDescription, stories: result.aiContent.stories }
+            : undefined,
         });
 
         controller.close();
@@ -365,6 +836,7 @@ export async function POST(request: NextRequest) {
         send({
           type: "error",
           message: error instanceof Error ? error.message : "An unknown error occurred",
+          errorCode: error instanceof HttpError ? error.code : undefined,
         });
         controller.close();
       }
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFigmaFileVersions } from "@/lib/figma";
+import { parseFigmaUrl, FigmaUrlError } from "@/lib/figma-url";
+import { HttpError } from "@/lib/http";
+
+// Lists the version history of a Figma file for the change report
+export async function POST(request: NextRequest) {
+  try {
+    const { figmaUrl, figmaToken } = await request.json();
+    if (!figmaUrl || !figmaToken) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: figmaUrl, figmaToken" },
+        { status: 400 }
+      );
+    }
+
+    const { fileKey } = parseFigmaUrl(figmaUrl);
+    const versions = await getFigmaFileVersions(figmaToken, fileKey);
+
+    return NextResponse.json({
+      success: true,
+      versions: versions.map((v) => ({
+        id: v.id,
+        label: v.label || "Autosave",
+        description: v.description || undefined,
+        createdAt: v.created_at,
+        user: v.user?.handle,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof FigmaUrlError) {
+      return NextResponse.json(
+        { success: false, error: error.message, field: "figmaUrl", errorCode: error.code },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        errorCode: error instanceof HttpError ? error.code : undefined,
+      },
+      { status: error instanceof HttpError && error.status ? error.status : 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { validateFigmaUrl } from "@/lib/figma-url";
+import { CMS_PROFILES, DEFAULT_CMS, CmsId } from "@/lib/cms";
 
 interface StepStatus {
   status: "pending" | "in_progress" | "complete" | "error" | "skipped";
@@ -32,9 +34,27 @@ interface GenerationResult {
     requirementsGenerated: number;
     fieldsIdentified: number;
   };
+  // Style Dictionary tokens JSON for the component
+  designTokens?: Record<string, unknown>;
+  // Logos, icons and image fills with Figma download links
+  assetManifest?: {
+    assets: { fileName: string; kind: string; url?: string; width: number; height: number }[];
+  };
+  // Epic + Stories structure - generated stories awaiting review, nothing created in Jira yet
+  pendingStories?: {
+    epicDescription: string;
+    stories: { title: string; acceptanceCriteria: string[] }[];
+  };
   error?: string;
 }
 
+// As returned by /api/create-stories
+interface CreatedEpicStories {
+  epic: { key: string; url: string; summary: string };
+  stories: { key: string; url: string; summary: string }[];
+  failedTasks: string[];
+}
+
 interface SavedCredentials {
   figmaToken: string;
   atlassianEmail: string;
@@ -47,6 +67,55 @@ interface SavedCredentials {
 }
 
 type GenerationMode = "both" | "jira_only" | "fsd_only";
+// "rules" drafts the content from layer names and text, without an AI provider
+type GenerationEngine = "ai" | "rules";
+// "epic_stories" creates one Story per generated story under an Epic, after review
+type TicketStructure = "subtasks" | "epic_stories";
+
+type RunMode = "single" | "batch" | "diff";
+
+// As reported by /api/config
+interface AIProviderOption {
+  id: string;
+  label: string;
+  configured: boolean;
+  defaultModel: string;
+  vision: boolean; // default model reads the exported screenshots
+}
+
+interface FigmaVersionOption {
+  id: string;
+  label: string;
+  createdAt: string;
+  user?: string;
+}
+
+interface ChangeReportResult {
+  report: string;
+  jiraUrl?: string;
+  confluenceUrl?: string;
+}
+
+interface BatchCandidate {
+  id: string;
+  name: string;
+  type: string;
+  page?: string;
+}
+
+interface BatchItemStatus {
+  componentName: string;
+  status: "pending" | "in_progress" | "complete" | "error";
+  message: string;
+  jiraKey?: string;
+  jiraUrl?: string;
+  confluenceUrl?: string;
+}
+
+interface BatchSummary {
+  succeeded: number;
+  failed: number;
+}
 
 // Simple encryption/decryption using Base64 + character shift
 const ENCRYPTION_KEY = "FigmaToFSD2024";
@@ -75,26 +144,30 @@ function decrypt(encoded: string): string {
   }
 }
 
-function getSteps(mode: GenerationMode): StepStatus[] {
+function getSteps(mode: GenerationMode, structure: TicketStructure = "subtasks"): StepStatus[] {
   const baseSteps: StepStatus[] = [
     { status: "pending", message: "Fetch Figma data" },
     { status: "pending", message: "Export component screenshot" },
-    { status: "pending", message: "Deep AI Analysis (Sitecore structure)" },
+    { status: "pending", message: "Deep AI Analysis (CMS structure)" },
     { status: "pending", message: "Generate description" },
   ];
+  const jiraSteps: StepStatus[] = structure === "epic_stories"
+    ? [{ status: "pending", message: "Prepare stories for review" }]
+    : [
+        { status: "pending", message: "Create Parent Ticket" },
+        { status: "pending", message: "Create FED/BED/QA Sub-tasks" },
+      ];
 
   if (mode === "both") {
     return [
       ...baseSteps,
-      { status: "pending", message: "Create Parent Ticket" },
-      { status: "pending", message: "Create FED/BED/QA Sub-tasks" },
+      ...jiraSteps,
       { status: "pending", message: "Create Confluence FSD" },
     ];
   } else if (mode === "jira_only") {
     return [
       ...baseSteps,
-      { status: "pending", message: "Create Parent Ticket" },
-      { status: "pending", message: "Create FED/BED/QA Sub-tasks" },
+      ...jiraSteps,
     ];
   } else {
     return [
@@ -115,8 +188,13 @@ export default function Home() {
   const [componentName, setComponentName] = useState("");
   const [tabletFigmaUrl, setTabletFigmaUrl] = useState("");
   const [mobileFigmaUrl, setMobileFigmaUrl] = useState("");
+  // Offline import - contents of a saved Figma /v1/files or /nodes JSON export
+  const [figmaJson, setFigmaJson] = useState("");
+  const [figmaJsonName, setFigmaJsonName] = useState("");
+  const figmaJsonInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [generationMode, setGenerationMode] = useState<GenerationMode>("both");
+  const [ticketStructure, setTicketStructure] = useState<TicketStructure>("subtasks");
   const [steps, setSteps] = useState<StepStatus[]>(getSteps("both"));
   const [createdStories, setCreatedStories] = useState<CreatedStory[]>([]);
   const [result, setResult] = useState<GenerationResult | null>(null);
@@ -124,17 +202,54 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [hasSavedCredentials, setHasSavedCredentials] = useState(false);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
-  const [isOpenAIConfigured, setIsOpenAIConfigured] = useState(true);
+  const [isAIConfigured, setIsAIConfigured] = useState(true);
+  const [aiProviders, setAIProviders] = useState<AIProviderOption[]>([]);
+  const [aiProvider, setAIProvider] = useState("");
+  const [aiModel, setAIModel] = useState("");
+  const [engine, setEngine] = useState<GenerationEngine>("ai");
+  const [cms, setCms] = useState<CmsId>(DEFAULT_CMS);
+  // Batch mode - every top-level frame/component on a page
+  const [runMode, setRunMode] = useState<RunMode>("single");
+  const [batchCandidates, setBatchCandidates] = useState<BatchCandidate[]>([]);
+  const [selectedBatchIds, setSelectedBatchIds] = useState<string[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(3);
+  const [isLoadingComponents, setIsLoadingComponents] = useState(false);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItemStatus[]>([]);
+  const [batchStatus, setBatchStatus] = useState<string | null>(null);
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  // Schema warnings on the AI output that did not block publishing
+  const [aiWarnings, setAIWarnings] = useState<string[]>([]);
+  const [urlErrors, setUrlErrors] = useState<Record<string, string>>({});
+  const [versions, setVersions] = useState<FigmaVersionOption[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [fromVersion, setFromVersion] = useState("");
+  const [toVersion, setToVersion] = useState("");
+  const [reportJiraIssue, setReportJiraIssue] = useState("");
+  const [reportConfluencePage, setReportConfluencePage] = useState("");
+  const [changeReport, setChangeReport] = useState<ChangeReportResult | null>(null);
+  // Epic + Stories review - indexes into result.pendingStories.stories
+  const [selectedStoryIndexes, setSelectedStoryIndexes] = useState<number[]>([]);
+  const [isCreatingStories, setIsCreatingStories] = useState(false);
+  const [createdEpicStories, setCreatedEpicStories] = useState<CreatedEpicStories | null>(null);
+  const [storiesError, setStoriesError] = useState<string | null>(null);
 
-  // Check if OpenAI API key is configured
+  // Check which AI providers are configured on the server
   useEffect(() => {
     fetch("/api/config")
       .then((res) => res.json())
       .then((data) => {
-        setIsOpenAIConfigured(data.openaiConfigured);
+        setIsAIConfigured(data.aiConfigured);
+        setAIProviders(data.providers || []);
+        setAIProvider(data.defaultProvider || "");
+        if (!data.aiConfigured) {
+          setEngine("rules");
+        }
       })
       .catch(() => {
-        setIsOpenAIConfigured(false);
+        setIsAIConfigured(false);
+        setEngine("rules");
       });
   }, []);
 
@@ -172,10 +287,10 @@ export default function Home() {
     }
   }, []);
 
-  // Update steps when generation mode changes
+  // Update steps when generation mode or ticket structure changes
   useEffect(() => {
-    setSteps(getSteps(generationMode));
-  }, [generationMode]);
+    setSteps(getSteps(generationMode, ticketStructure));
+  }, [generationMode, ticketStructure]);
 
   const saveCredentials = () => {
     const credentials = {
@@ -200,13 +315,233 @@ export default function Home() {
     setTimeout(() => setSaveMessage(null), 3000);
   };
 
+  const handleFigmaJsonChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      setFigmaJson("");
+      setFigmaJsonName("");
+      return;
+    }
+    setFigmaJson(await file.text());
+    setFigmaJsonName(file.name);
+  };
+
+  const clearFigmaJson = () => {
+    setFigmaJson("");
+    setFigmaJsonName("");
+    if (figmaJsonInputRef.current) {
+      figmaJsonInputRef.current.value = "";
+    }
+  };
+
+  // Inline validation for the Figma link fields - tablet/mobile links must point at a frame
+  const validateUrlField = (field: string, value: string): string | null => {
+    if (!value) return null;
+    return validateFigmaUrl(value, { requireNode: field !== "figmaUrl" });
+  };
+
+  const setUrlError = (field: string, message: string | null) => {
+    setUrlErrors((prev) => {
+      const next = { ...prev };
+      if (message) {
+        next[field] = message;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const loadBatchComponents = async () => {
+    const figmaUrlError = validateUrlField("figmaUrl", figmaUrl);
+    if (figmaUrlError) {
+      setUrlError("figmaUrl", figmaUrlError);
+      return;
+    }
+
+    setIsLoadingComponents(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/components", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ figmaUrl, figmaToken, figmaJson: figmaJson || undefined, forceRefresh }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        if (data.field) {
+          setUrlError(data.field, data.error);
+          return;
+        }
+        throw new Error(data.error || "Failed to list components");
+      }
+      setBatchCandidates(data.components);
+      setSelectedBatchIds(data.components.map((c: BatchCandidate) => c.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsLoadingComponents(false);
+    }
+  };
+
+  const loadVersions = async () => {
+    const figmaUrlError = validateUrlField("figmaUrl", figmaUrl);
+    if (figmaUrlError) {
+      setUrlError("figmaUrl", figmaUrlError);
+      return;
+    }
+
+    setIsLoadingVersions(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/versions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ figmaUrl, figmaToken }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to load versions");
+      }
+      setVersions(data.versions);
+      // Default to comparing the previous version with the current design
+      setFromVersion(data.versions[0]?.id || "");
+      setToVersion("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsLoadingVersions(false);
+    }
+  };
+
+  const runChangeReport = async () => {
+    if (!fromVersion) {
+      setError("Load the version history and pick a version to compare against");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setChangeReport(null);
+    try {
+      const response = await fetch("/api/diff", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          figmaUrl,
+          figmaToken,
+          componentName,
+          fromVersion,
+          toVersion: toVersion || undefined,
+          jiraIssueKey: reportJiraIssue || undefined,
+          confluencePage: reportConfluencePage || undefined,
+          atlassianEmail,
+          atlassianToken,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to create change report");
+      }
+      setChangeReport({ report: data.report, jiraUrl: data.jiraUrl, confluenceUrl: data.confluenceUrl });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleStory = (index: number) => {
+    setSelectedStoryIndexes((prev) => (prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index].sort((a, b) => a - b)));
+  };
+
+  const createSelectedStories = async () => {
+    const pending = result?.pendingStories;
+    if (!pending) return;
+    const stories = pending.stories.filter((_, i) => selectedStoryIndexes.includes(i));
+    if (stories.length === 0) {
+      setStoriesError("Select at least one story to create");
+      return;
+    }
+
+    setIsCreatingStories(true);
+    setStoriesError(null);
+    try {
+      const response = await fetch("/api/create-stories", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          atlassianEmail,
+          atlassianToken,
+          jiraProject,
+          componentName,
+          epicDescription: pending.epicDescription,
+          stories,
+          figmaUrl: figmaUrl || undefined,
+          confluenceUrl: result?.confluenceUrl,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to create stories");
+      }
+      setCreatedEpicStories(data.result as CreatedEpicStories);
+    } catch (err) {
+      setStoriesError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsCreatingStories(false);
+    }
+  };
+
+  const formatVersion = (v: FigmaVersionOption) =>
+    `${v.label} - ${new Date(v.createdAt).toLocaleString()}${v.user ? ` (${v.user})` : ""}`;
+
+  const toggleBatchComponent = (id: string) => {
+    setSelectedBatchIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (runMode === "diff") {
+      await runChangeReport();
+      return;
+    }
+
+    const batchComponents = runMode === "batch"
+      ? batchCandidates.filter((c) => selectedBatchIds.includes(c.id)).map((c) => ({ id: c.id, name: c.name }))
+      : undefined;
+    if (batchComponents && batchComponents.length === 0) {
+      setError("Select at least one component to generate");
+      return;
+    }
+
+    const fieldErrors: Record<string, string> = {};
+    for (const [field, value] of Object.entries({ figmaUrl, tabletFigmaUrl, mobileFigmaUrl })) {
+      const message = validateUrlField(field, value);
+      if (message) {
+        fieldErrors[field] = message;
+      }
+    }
+    setUrlErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      return;
+    }
+
     setIsLoading(true);
     setResult(null);
     setError(null);
-    setSteps(getSteps(generationMode));
+    setSteps(getSteps(generationMode, runMode === "single" ? ticketStructure : "subtasks"));
     setCreatedStories([]);
+    setSelectedStoryIndexes([]);
+    setCreatedEpicStories(null);
+    setStoriesError(null);
+    setBatchItems(
+      (batchComponents || []).map((c) => ({ componentName: c.name, status: "pending", message: "Queued" }))
+    );
+    setBatchStatus(null);
+    setBatchSummary(null);
+    setRetryNotice(null);
+    setAIWarnings([]);
 
     try {
       const response = await fetch("/api/generate", {
@@ -222,8 +557,17 @@ export default function Home() {
           confluenceParentPage,
           componentName,
           generationMode,
+          ticketStructure: runMode === "single" ? ticketStructure : undefined,
           tabletFigmaUrl,
           mobileFigmaUrl,
+          figmaJson: figmaJson || undefined,
+          forceRefresh,
+          engine,
+          aiProvider: engine === "ai" ? aiProvider || undefined : undefined,
+          aiModel: engine === "ai" ? aiModel.trim() || undefined : undefined,
+          cms,
+          batchComponents,
+          batchConcurrency: batchComponents ? batchConcurrency : undefined,
         }),
       });
 
@@ -263,7 +607,16 @@ export default function Home() {
 
   const handleSSEMessage = (data: Record<string, unknown>) => {
     switch (data.type) {
+      case "retry":
+        setRetryNotice(data.message as string);
+        break;
+
+      case "warning":
+        setAIWarnings(data.warnings as string[]);
+        break;
+
       case "step":
+        setRetryNotice(null);
         setSteps((prev) => {
           const newSteps = [...prev];
           const stepIndex = (data.step as number) - 1;
@@ -298,15 +651,79 @@ export default function Home() {
           jiraStoryUrls: data.jiraStoryUrls as string[],
           confluenceUrl: data.confluenceUrl as string,
           aiAnalysis: data.aiAnalysis as GenerationResult["aiAnalysis"],
+          designTokens: data.designTokens as GenerationResult["designTokens"],
+          assetManifest: data.assetManifest as GenerationResult["assetManifest"],
+          pendingStories: data.pendingStories as GenerationResult["pendingStories"],
+        });
+        // Every generated story starts selected
+        setSelectedStoryIndexes(
+          ((data.pendingStories as GenerationResult["pendingStories"])?.stories || []).map((_, i) => i)
+        );
+        break;
+
+      case "batch_status":
+        setBatchStatus(data.message as string);
+        break;
+
+      case "batch_start":
+        setBatchStatus(`Processing ${data.total} components (${data.concurrency} at a time)...`);
+        break;
+
+      case "batch_item": {
+        // Progress event from one component's pipeline
+        const event = data.event as Record<string, unknown>;
+        const message =
+          event.type === "story_created"
+            ? `Created ${event.storyKey} (${event.title})`
+            : (event.message as string) || (event.error as string);
+        if (message) {
+          updateBatchItem(data.index as number, { status: "in_progress", message });
+        }
+        break;
+      }
+
+      case "batch_item_complete":
+        updateBatchItem(data.index as number, {
+          status: "complete",
+          message: "Done",
+          jiraKey: data.jiraKey as string,
+          jiraUrl: data.jiraUrl as string,
+          confluenceUrl: data.confluenceUrl as string,
         });
         break;
 
+      case "batch_item_error":
+        updateBatchItem(data.index as number, { status: "error", message: data.message as string });
+        break;
+
+      case "batch_complete":
+        setBatchSummary({ succeeded: data.succeeded as number, failed: data.failed as number });
+        break;
+
       case "error":
+        if (data.field) {
+          setUrlError(data.field as string, data.message as string);
+        }
         setError(data.message as string);
         break;
     }
   };
 
+  const updateBatchItem = (index: number, update: Partial<BatchItemStatus>) => {
+    setBatchItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...update } : item)));
+  };
+
+  // Save a result JSON as <component>.<suffix>.json
+  const downloadJson = (data: unknown, suffix: string) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${componentName.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-") || "component"}.${suffix}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const getStepIcon = (status: StepStatus["status"], index: number) => {
     switch (status) {
       case "complete":
@@ -324,6 +741,8 @@ export default function Home() {
 
   const getButtonText = () => {
     if (isLoading) return "Generating...";
+    if (runMode === "diff") return "Generate Change Report";
+    if (runMode === "batch") return `Generate ${selectedBatchIds.length} Component(s)`;
     switch (generationMode) {
       case "jira_only":
         return "Generate Jira Tickets Only";
@@ -341,7 +760,9 @@ export default function Home() {
         <div className="max-w-4xl mx-auto px-6 py-4 flex justify-between items-center">
           <div>
             <h1 className="text-xl font-semibold tracking-tight">Figma to FSD</h1>
-            <p className="text-xs text-gray-500">Powered by OpenAI GPT-4o</p>
+            <p className="text-xs text-gray-500">
+              Powered by {engine === "rules" ? "rule-based drafting" : aiProviders.find((p) => p.id === aiProvider)?.label || "AI"}
+            </p>
           </div>
           <div className="flex gap-2 items-center">
             {saveMessage && (
@@ -375,7 +796,7 @@ export default function Home() {
       </header>
 
       {/* API Key Missing Banner */}
-      {!isOpenAIConfigured && (
+      {!isAIConfigured && (
         <div className="bg-amber-50 border-b border-amber-200">
           <div className="max-w-4xl mx-auto px-6 py-3 flex items-center gap-3">
             <svg
@@ -392,9 +813,18 @@ export default function Home() {
               />
             </svg>
             <p className="text-sm text-amber-800">
-              <strong>OpenAI API key is missing.</strong> Add{" "}
+              <strong>No AI provider is configured.</strong> Generation uses the rule-based engine, which drafts the
+              FSD and tickets from layer names and text. For AI analysis add{" "}
+              <code className="bg-amber-100 px-1 py-0.5 rounded font-mono text-xs">
+                OPENAI_API_KEY
+              </code>
+              ,{" "}
+              <code className="bg-amber-100 px-1 py-0.5 rounded font-mono text-xs">
+                ANTHROPIC_API_KEY
+              </code>{" "}
+              or{" "}
               <code className="bg-amber-100 px-1 py-0.5 rounded font-mono text-xs">
-                OPENAI_API_KEY=your-key
+                LOCAL_LLM_BASE_URL
               </code>{" "}
               to your <code className="bg-amber-100 px-1 py-0.5 rounded font-mono text-xs">.env</code> file and restart the server.
             </p>
@@ -422,18 +852,78 @@ export default function Home() {
                 Figma URL
               </label>
               <input
-                type="url"
+                type="text"
+                inputMode="url"
                 id="figmaUrl"
                 value={figmaUrl}
-                onChange={(e) => setFigmaUrl(e.target.value)}
+                onChange={(e) => {
+                  setFigmaUrl(e.target.value);
+                  setUrlError("figmaUrl", null);
+                }}
+                onBlur={(e) => setUrlError("figmaUrl", validateUrlField("figmaUrl", e.target.value))}
                 placeholder="https://www.figma.com/design/..."
-                className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
-                required
+                className={`w-full px-4 py-3 border focus:outline-none focus:ring-2 focus:ring-black ${
+                  urlErrors.figmaUrl ? "border-red-600" : "border-black"
+                }`}
+                required={!figmaJson}
               />
+              {urlErrors.figmaUrl && <p className="text-xs text-red-600 mt-1">{urlErrors.figmaUrl}</p>}
               <p className="text-xs text-gray-500 mt-1">
                 Include the node-id parameter for specific component (only that component&apos;s screenshot will be used)
               </p>
             </div>
+            <div>
+              <label htmlFor="figmaJson" className="block text-sm font-medium mb-2">
+                Figma JSON Export <span className="text-gray-400 font-normal">(Optional - offline import)</span>
+              </label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="file"
+                  id="figmaJson"
+                  ref={figmaJsonInputRef}
+                  accept="application/json,.json"
+                  onChange={handleFigmaJsonChange}
+                  className="flex-1 text-sm file:mr-3 file:px-3 file:py-2 file:border file:border-black file:bg-white file:text-sm"
+                />
+                {figmaJsonName && (
+                  <button
+                    type="button"
+                    onClick={clearFigmaJson}
+                    className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {figmaJsonName
+                  ? `Using ${figmaJsonName} - Figma URL and token are optional, screenshots will be skipped`
+                  : "Upload a saved /v1/files or /v1/files/:key/nodes response to run without a Figma token"}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={forceRefresh}
+                onChange={(e) => setForceRefresh(e.target.checked)}
+                className="w-4 h-4"
+              />
+              Force refresh (ignore cached Figma data and screenshot URLs)
+            </label>
+            <div className="flex gap-2">
+              {(["single", "batch", "diff"] as RunMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setRunMode(mode)}
+                  className={`text-sm px-3 py-1 border ${
+                    runMode === mode ? "border-black bg-black text-white" : "border-gray-300 text-gray-600 hover:text-black"
+                  }`}
+                >
+                  {mode === "single" ? "Single Component" : mode === "batch" ? "Batch (whole page)" : "Change Report"}
+                </button>
+              ))}
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="figmaToken" className="block text-sm font-medium mb-2">
@@ -446,55 +936,224 @@ export default function Home() {
                   onChange={(e) => setFigmaToken(e.target.value)}
                   placeholder="figd_..."
                   className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
-                  required
-                />
-              </div>
-              <div>
-                <label htmlFor="componentName" className="block text-sm font-medium mb-2">
-                  Component Name
-                </label>
-                <input
-                  type="text"
-                  id="componentName"
-                  value={componentName}
-                  onChange={(e) => setComponentName(e.target.value)}
-                  placeholder="e.g., Footer, Header, Card"
-                  className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
-                  required
+                  required={!figmaJson}
                 />
               </div>
+              {runMode !== "batch" ? (
+                <div>
+                  <label htmlFor="componentName" className="block text-sm font-medium mb-2">
+                    Component Name
+                  </label>
+                  <input
+                    type="text"
+                    id="componentName"
+                    value={componentName}
+                    onChange={(e) => setComponentName(e.target.value)}
+                    placeholder="e.g., Footer, Header, Card"
+                    className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
+                    required
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="batchConcurrency" className="block text-sm font-medium mb-2">
+                    Parallel Components
+                  </label>
+                  <input
+                    type="number"
+                    id="batchConcurrency"
+                    min={1}
+                    max={5}
+                    value={batchConcurrency}
+                    onChange={(e) => setBatchConcurrency(Number(e.target.value) || 1)}
+                    className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
+                  />
+                </div>
+              )}
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="tabletFigmaUrl" className="block text-sm font-medium mb-2">
-                  Tablet Design URL <span className="text-gray-400 font-normal">(Optional)</span>
-                </label>
-                <input
-                  type="url"
-                  id="tabletFigmaUrl"
-                  value={tabletFigmaUrl}
-                  onChange={(e) => setTabletFigmaUrl(e.target.value)}
-                  placeholder="Figma URL for tablet design (auto-detect if empty)"
-                  className="w-full px-4 py-3 border border-gray-400 focus:outline-none focus:ring-2 focus:ring-black"
-                />
+            {runMode === "diff" && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Compare Figma Versions</p>
+                  <button
+                    type="button"
+                    onClick={loadVersions}
+                    disabled={isLoadingVersions || !figmaUrl || !figmaToken}
+                    className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1 disabled:opacity-50"
+                  >
+                    {isLoadingVersions ? "Loading..." : "Load Versions"}
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="fromVersion" className="block text-sm font-medium mb-2">
+                      From Version
+                    </label>
+                    <select
+                      id="fromVersion"
+                      value={fromVersion}
+                      onChange={(e) => setFromVersion(e.target.value)}
+                      className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                    >
+                      {versions.length === 0 && <option value="">Load versions first</option>}
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>
+                          {formatVersion(v)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="toVersion" className="block text-sm font-medium mb-2">
+                      To Version
+                    </label>
+                    <select
+                      id="toVersion"
+                      value={toVersion}
+                      onChange={(e) => setToVersion(e.target.value)}
+                      className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                    >
+                      <option value="">Current version</option>
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>
+                          {formatVersion(v)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="reportJiraIssue" className="block text-sm font-medium mb-2">
+                      Comment on Jira Issue <span className="text-gray-400 font-normal">(Optional)</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="reportJiraIssue"
+                      value={reportJiraIssue}
+                      onChange={(e) => setReportJiraIssue(e.target.value.toUpperCase())}
+                      placeholder="e.g., DPWOR-123"
+                      className="w-full px-4 py-3 border border-gray-400 focus:outline-none focus:ring-2 focus:ring-black uppercase"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="reportConfluencePage" className="block text-sm font-medium mb-2">
+                      Append to FSD <span className="text-gray-400 font-normal">(Optional page ID or URL)</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="reportConfluencePage"
+                      value={reportConfluencePage}
+                      onChange={(e) => setReportConfluencePage(e.target.value)}
+                      placeholder="e.g., 123456789"
+                      className="w-full px-4 py-3 border border-gray-400 focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                  </div>
+                </div>
               </div>
-              <div>
-                <label htmlFor="mobileFigmaUrl" className="block text-sm font-medium mb-2">
-                  Mobile Design URL <span className="text-gray-400 font-normal">(Optional)</span>
-                </label>
-                <input
-                  type="url"
-                  id="mobileFigmaUrl"
-                  value={mobileFigmaUrl}
-                  onChange={(e) => setMobileFigmaUrl(e.target.value)}
-                  placeholder="Figma URL for mobile design (auto-detect if empty)"
-                  className="w-full px-4 py-3 border border-gray-400 focus:outline-none focus:ring-2 focus:ring-black"
-                />
+            )}
+            {runMode === "batch" && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">
+                    Point the Figma URL at a page or component set, then pick the components to document
+                  </p>
+                  <button
+                    type="button"
+                    onClick={loadBatchComponents}
+                    disabled={isLoadingComponents || (!figmaJson && (!figmaUrl || !figmaToken))}
+                    className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1 disabled:text-gray-300"
+                  >
+                    {isLoadingComponents ? "Loading..." : "Load Components"}
+                  </button>
+                </div>
+                {batchCandidates.length > 0 && (
+                  <div className="border border-gray-300">
+                    <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+                      <span>{selectedBatchIds.length} of {batchCandidates.length} selected</span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setSelectedBatchIds(
+                            selectedBatchIds.length === batchCandidates.length ? [] : batchCandidates.map((c) => c.id)
+                          )
+                        }
+                        className="text-gray-600 hover:text-black underline"
+                      >
+                        {selectedBatchIds.length === batchCandidates.length ? "Select none" : "Select all"}
+                      </button>
+                    </div>
+                    <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+                      {batchCandidates.map((candidate) => (
+                        <li key={candidate.id}>
+                          <label className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                            <input
+                              type="checkbox"
+                              checked={selectedBatchIds.includes(candidate.id)}
+                              onChange={() => toggleBatchComponent(candidate.id)}
+                              className="w-4 h-4"
+                            />
+                            <span className="flex-1">{candidate.name}</span>
+                            <span className="text-xs text-gray-400">
+                              {candidate.page ? `${candidate.page} · ` : ""}{candidate.type}
+                            </span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
-            </div>
-            <p className="text-xs text-gray-500">
-              Leave tablet/mobile URLs empty to auto-detect variants from the main design
-            </p>
+            )}
+            {runMode === "single" && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="tabletFigmaUrl" className="block text-sm font-medium mb-2">
+                      Tablet Design URL <span className="text-gray-400 font-normal">(Optional)</span>
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="url"
+                      id="tabletFigmaUrl"
+                      value={tabletFigmaUrl}
+                      onChange={(e) => {
+                        setTabletFigmaUrl(e.target.value);
+                        setUrlError("tabletFigmaUrl", null);
+                      }}
+                      onBlur={(e) => setUrlError("tabletFigmaUrl", validateUrlField("tabletFigmaUrl", e.target.value))}
+                      placeholder="Figma URL for tablet design (auto-detect if empty)"
+                      className={`w-full px-4 py-3 border focus:outline-none focus:ring-2 focus:ring-black ${
+                        urlErrors.tabletFigmaUrl ? "border-red-600" : "border-gray-400"
+                      }`}
+                    />
+                    {urlErrors.tabletFigmaUrl && <p className="text-xs text-red-600 mt-1">{urlErrors.tabletFigmaUrl}</p>}
+                  </div>
+                  <div>
+                    <label htmlFor="mobileFigmaUrl" className="block text-sm font-medium mb-2">
+                      Mobile Design URL <span className="text-gray-400 font-normal">(Optional)</span>
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="url"
+                      id="mobileFigmaUrl"
+                      value={mobileFigmaUrl}
+                      onChange={(e) => {
+                        setMobileFigmaUrl(e.target.value);
+                        setUrlError("mobileFigmaUrl", null);
+                      }}
+                      onBlur={(e) => setUrlError("mobileFigmaUrl", validateUrlField("mobileFigmaUrl", e.target.value))}
+                      placeholder="Figma URL for mobile design (auto-detect if empty)"
+                      className={`w-full px-4 py-3 border focus:outline-none focus:ring-2 focus:ring-black ${
+                        urlErrors.mobileFigmaUrl ? "border-red-600" : "border-gray-400"
+                      }`}
+                    />
+                    {urlErrors.mobileFigmaUrl && <p className="text-xs text-red-600 mt-1">{urlErrors.mobileFigmaUrl}</p>}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Leave tablet/mobile URLs empty to auto-detect variants from the main design
+                </p>
+              </>
+            )}
           </div>
 
           {/* Atlassian Section */}
@@ -512,7 +1171,7 @@ export default function Home() {
                   onChange={(e) => setAtlassianEmail(e.target.value)}
                   placeholder="your.email@company.com"
                   className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
-                  required
+                  required={runMode !== "diff"}
                 />
               </div>
               <div>
@@ -526,7 +1185,7 @@ export default function Home() {
                   onChange={(e) => setAtlassianToken(e.target.value)}
                   placeholder="ATATT3x..."
                   className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
-                  required
+                  required={runMode !== "diff"}
                 />
               </div>
             </div>
@@ -535,124 +1194,242 @@ export default function Home() {
             </p>
           </div>
 
-          {/* Jira & Confluence Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold border-b border-gray-200 pb-2">
-              Jira & Confluence Configuration
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <label htmlFor="jiraProject" className="block text-sm font-medium mb-2">
-                  Jira Project Key
-                </label>
-                <input
-                  type="text"
-                  id="jiraProject"
-                  value={jiraProject}
-                  onChange={(e) => setJiraProject(e.target.value.toUpperCase())}
-                  placeholder="e.g., DPWOR"
-                  className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black uppercase"
-                  required={generationMode !== "fsd_only"}
-                />
-              </div>
-              <div>
-                <label htmlFor="confluenceSpace" className="block text-sm font-medium mb-2">
-                  Confluence Space Key
-                </label>
-                <input
-                  type="text"
-                  id="confluenceSpace"
-                  value={confluenceSpace}
-                  onChange={(e) => setConfluenceSpace(e.target.value.toUpperCase())}
-                  placeholder="e.g., TEAM"
-                  className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black uppercase"
-                  required={generationMode !== "jira_only"}
-                />
-              </div>
-              <div>
-                <label htmlFor="confluenceParentPage" className="block text-sm font-medium mb-2">
-                  Parent Page ID
-                </label>
-                <input
-                  type="text"
-                  id="confluenceParentPage"
-                  value={confluenceParentPage}
-                  onChange={(e) => setConfluenceParentPage(e.target.value)}
-                  placeholder="Optional"
-                  className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
-                />
+          {/* Jira & Confluence Section - the change report publishes to an existing issue/page instead */}
+          {runMode !== "diff" && (
+            <>
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b border-gray-200 pb-2">
+                  Jira & Confluence Configuration
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="jiraProject" className="block text-sm font-medium mb-2">
+                      Jira Project Key
+                    </label>
+                    <input
+                      type="text"
+                      id="jiraProject"
+                      value={jiraProject}
+                      onChange={(e) => setJiraProject(e.target.value.toUpperCase())}
+                      placeholder="e.g., DPWOR"
+                      className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black uppercase"
+                      required={generationMode !== "fsd_only"}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="confluenceSpace" className="block text-sm font-medium mb-2">
+                      Confluence Space Key
+                    </label>
+                    <input
+                      type="text"
+                      id="confluenceSpace"
+                      value={confluenceSpace}
+                      onChange={(e) => setConfluenceSpace(e.target.value.toUpperCase())}
+                      placeholder="e.g., TEAM"
+                      className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black uppercase"
+                      required={generationMode !== "jira_only"}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="confluenceParentPage" className="block text-sm font-medium mb-2">
+                      Parent Page ID
+                    </label>
+                    <input
+                      type="text"
+                      id="confluenceParentPage"
+                      value={confluenceParentPage}
+                      onChange={(e) => setConfluenceParentPage(e.target.value)}
+                      placeholder="Optional"
+                      className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* Generation Mode Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold border-b border-gray-200 pb-2">
-              What to Generate
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <label
-                className={`flex items-center gap-3 p-4 border-2 cursor-pointer transition-all ${
-                  generationMode === "both"
-                    ? "border-black bg-gray-50"
-                    : "border-gray-300 hover:border-gray-400"
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="generationMode"
-                  value="both"
-                  checked={generationMode === "both"}
-                  onChange={(e) => setGenerationMode(e.target.value as GenerationMode)}
-                  className="w-4 h-4"
-                />
-                <div>
-                  <p className="font-medium">Both</p>
-                  <p className="text-xs text-gray-500">Jira tickets + FSD</p>
+              {/* Generation Mode Section */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b border-gray-200 pb-2">
+                  What to Generate
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <label
+                    className={`flex items-center gap-3 p-4 border-2 cursor-pointer transition-all ${
+                      generationMode === "both"
+                        ? "border-black bg-gray-50"
+                        : "border-gray-300 hover:border-gray-400"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="generationMode"
+                      value="both"
+                      checked={generationMode === "both"}
+                      onChange={(e) => setGenerationMode(e.target.value as GenerationMode)}
+                      className="w-4 h-4"
+                    />
+                    <div>
+                      <p className="font-medium">Both</p>
+                      <p className="text-xs text-gray-500">Jira tickets + FSD</p>
+                    </div>
+                  </label>
+                  <label
+                    className={`flex items-center gap-3 p-4 border-2 cursor-pointer transition-all ${
+                      generationMode === "jira_only"
+                        ? "border-black bg-gray-50"
+                        : "border-gray-300 hover:border-gray-400"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="generationMode"
+                      value="jira_only"
+                      checked={generationMode === "jira_only"}
+                      onChange={(e) => setGenerationMode(e.target.value as GenerationMode)}
+                      className="w-4 h-4"
+                    />
+                    <div>
+                      <p className="font-medium">Jira Only</p>
+                      <p className="text-xs text-gray-500">Parent + FED/BED/QA</p>
+                    </div>
+                  </label>
+                  <label
+                    className={`flex items-center gap-3 p-4 border-2 cursor-pointer transition-all ${
+                      generationMode === "fsd_only"
+                        ? "border-black bg-gray-50"
+                        : "border-gray-300 hover:border-gray-400"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="generationMode"
+                      value="fsd_only"
+                      checked={generationMode === "fsd_only"}
+                      onChange={(e) => setGenerationMode(e.target.value as GenerationMode)}
+                      className="w-4 h-4"
+                    />
+                    <div>
+                      <p className="font-medium">FSD Only</p>
+                      <p className="text-xs text-gray-500">Confluence document</p>
+                    </div>
+                  </label>
                 </div>
-              </label>
-              <label
-                className={`flex items-center gap-3 p-4 border-2 cursor-pointer transition-all ${
-                  generationMode === "jira_only"
-                    ? "border-black bg-gray-50"
-                    : "border-gray-300 hover:border-gray-400"
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="generationMode"
-                  value="jira_only"
-                  checked={generationMode === "jira_only"}
-                  onChange={(e) => setGenerationMode(e.target.value as GenerationMode)}
-                  className="w-4 h-4"
-                />
+                {generationMode !== "fsd_only" && runMode === "single" && (
+                  <div>
+                    <label htmlFor="ticketStructure" className="block text-sm font-medium mb-2">
+                      Jira Ticket Structure
+                    </label>
+                    <select
+                      id="ticketStructure"
+                      value={ticketStructure}
+                      onChange={(e) => setTicketStructure(e.target.value as TicketStructure)}
+                      className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                    >
+                      <option value="subtasks">Parent + FED/BED/QA sub-tasks</option>
+                      <option value="epic_stories">Epic + one Story per generated story</option>
+                    </select>
+                    {ticketStructure === "epic_stories" && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        The generated stories are listed for review - pick which ones to create before anything is added to Jira
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div>
-                  <p className="font-medium">Jira Only</p>
-                  <p className="text-xs text-gray-500">Parent + FED/BED/QA</p>
+                  <label htmlFor="cms" className="block text-sm font-medium mb-2">
+                    Target CMS
+                  </label>
+                  <select
+                    id="cms"
+                    value={cms}
+                    onChange={(e) => setCms(e.target.value as CmsId)}
+                    className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                  >
+                    {Object.values(CMS_PROFILES).map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Field types, FSD terminology and the BED sub-task follow this CMS
+                  </p>
                 </div>
-              </label>
-              <label
-                className={`flex items-center gap-3 p-4 border-2 cursor-pointer transition-all ${
-                  generationMode === "fsd_only"
-                    ? "border-black bg-gray-50"
-                    : "border-gray-300 hover:border-gray-400"
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="generationMode"
-                  value="fsd_only"
-                  checked={generationMode === "fsd_only"}
-                  onChange={(e) => setGenerationMode(e.target.value as GenerationMode)}
-                  className="w-4 h-4"
-                />
+              </div>
+
+              {/* Analysis Engine Section */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b border-gray-200 pb-2">
+                  Analysis Engine
+                </h3>
                 <div>
-                  <p className="font-medium">FSD Only</p>
-                  <p className="text-xs text-gray-500">Confluence document</p>
+                  <label htmlFor="engine" className="block text-sm font-medium mb-2">
+                    Engine
+                  </label>
+                  <select
+                    id="engine"
+                    value={engine}
+                    onChange={(e) => setEngine(e.target.value as GenerationEngine)}
+                    className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                  >
+                    <option value="ai" disabled={!isAIConfigured}>
+                      AI analysis{isAIConfigured ? "" : " (no provider configured)"}
+                    </option>
+                    <option value="rules">Rule-based draft (no AI)</option>
+                  </select>
+                  {engine === "rules" && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Fields, requirements and design notes are inferred from layer names, types, text length and repeated items - review the draft before sign-off
+                    </p>
+                  )}
                 </div>
-              </label>
-            </div>
-          </div>
+                {engine === "ai" && aiProviders.length > 0 && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="aiProvider" className="block text-sm font-medium mb-2">
+                          Provider
+                        </label>
+                        <select
+                          id="aiProvider"
+                          value={aiProvider}
+                          onChange={(e) => {
+                            setAIProvider(e.target.value);
+                            setAIModel("");
+                          }}
+                          className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                        >
+                          {aiProviders.map((p) => (
+                            <option key={p.id} value={p.id} disabled={!p.configured}>
+                              {p.label}{p.configured ? "" : " (not configured)"}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="aiModel" className="block text-sm font-medium mb-2">
+                          Model <span className="text-gray-400 font-normal">(optional)</span>
+                        </label>
+                        <input
+                          type="text"
+                          id="aiModel"
+                          value={aiModel}
+                          onChange={(e) => setAIModel(e.target.value)}
+                          placeholder={aiProviders.find((p) => p.id === aiProvider)?.defaultModel || ""}
+                          className="w-full px-4 py-3 border border-black focus:outline-none focus:ring-2 focus:ring-black"
+                        />
+                      </div>
+                    </div>
+                    {!aiModel && aiProviders.find((p) => p.id === aiProvider)?.vision && (
+                      <p className="text-xs text-gray-500">
+                        The default model supports vision - exported screenshots are sent along with the design data.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+
+            </>
+          )}
 
           {/* Submit Button */}
           <button
@@ -665,9 +1442,13 @@ export default function Home() {
         </form>
 
         {/* Progress Section */}
-        {isLoading && (
+        {isLoading && runMode === "single" && (
           <div className="mt-8 p-6 border border-black bg-gray-50">
             <h3 className="text-lg font-semibold mb-4">Progress</h3>
+            {retryNotice && <p className="text-sm text-amber-700 mb-4">{retryNotice}</p>}
+            {aiWarnings.length > 0 && (
+              <p className="text-sm text-amber-700 mb-4">{engine === "rules" ? "Rule-based draft" : "AI output"} has {aiWarnings.length} warning(s) - listed when generation completes</p>
+            )}
             <div className="space-y-3">
               {steps.map((step, idx) => (
                 <div key={idx}>
@@ -769,16 +1550,118 @@ export default function Home() {
           </div>
         )}
 
+        {/* Change Report Section */}
+        {runMode === "diff" && changeReport && !isLoading && (
+          <div className="mt-8 p-6 border border-black bg-gray-50">
+            <h3 className="text-lg font-semibold mb-4">Change Report</h3>
+            <pre className="text-sm whitespace-pre-wrap font-mono bg-white border border-gray-300 p-4">{changeReport.report}</pre>
+            {(changeReport.jiraUrl || changeReport.confluenceUrl) && (
+              <div className="mt-4 space-y-1 text-sm">
+                {changeReport.jiraUrl && (
+                  <p>
+                    Posted to{" "}
+                    <a href={changeReport.jiraUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                      {changeReport.jiraUrl}
+                    </a>
+                  </p>
+                )}
+                {changeReport.confluenceUrl && (
+                  <p>
+                    Appended to{" "}
+                    <a href={changeReport.confluenceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                      {changeReport.confluenceUrl}
+                    </a>
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Batch Progress / Summary Section */}
+        {runMode === "batch" && batchItems.length > 0 && (
+          <div
+            className={`mt-8 p-6 border ${
+              batchSummary ? "border-green-600 bg-green-50" : "border-black bg-gray-50"
+            }`}
+          >
+            <h3 className="text-lg font-semibold mb-2">
+              {batchSummary
+                ? `Batch Complete: ${batchSummary.succeeded} succeeded, ${batchSummary.failed} failed`
+                : "Batch Progress"}
+            </h3>
+            {batchStatus && !batchSummary && <p className="text-sm text-gray-600 mb-4">{batchStatus}</p>}
+            <ul className="divide-y divide-gray-200 text-sm">
+              {batchItems.map((item, idx) => (
+                <li key={idx} className="py-2 flex items-start gap-3">
+                  <span
+                    className={`w-6 h-6 flex-shrink-0 flex items-center justify-center border text-xs ${
+                      item.status === "complete"
+                        ? "border-green-700 bg-green-700 text-white"
+                        : item.status === "error"
+                        ? "border-red-600 bg-red-600 text-white"
+                        : item.status === "in_progress"
+                        ? "border-black"
+                        : "border-gray-400 text-gray-400"
+                    }`}
+                  >
+                    {getStepIcon(item.status, idx)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{item.componentName}</p>
+                    <p className={`truncate ${item.status === "error" ? "text-red-600" : "text-gray-500"}`}>
+                      {item.message}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {item.jiraKey && (
+                      <a
+                        href={item.jiraUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-2 py-1 bg-blue-100 text-blue-700 font-medium hover:bg-blue-200"
+                      >
+                        {item.jiraKey}
+                      </a>
+                    )}
+                    {item.confluenceUrl && (
+                      <a
+                        href={item.confluenceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-2 py-1 bg-blue-100 text-blue-700 font-medium hover:bg-blue-200"
+                      >
+                        FSD
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Result Section */}
         {result && result.success && !isLoading && (
           <div className="mt-8 p-6 border border-green-600 bg-green-50">
             <h3 className="text-lg font-semibold text-green-800 mb-4">Generation Complete</h3>
 
+            {aiWarnings.length > 0 && (
+              <div className="p-3 mb-4 bg-amber-50 border border-amber-200">
+                <p className="text-sm font-medium text-amber-800 mb-1">Review before sign-off ({aiWarnings.length} warning(s))</p>
+                <ul className="text-sm text-amber-800 list-disc ml-5">
+                  {aiWarnings.map((warning, i) => (
+                    <li key={i}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {result.aiAnalysis && (
               <div className="grid grid-cols-3 gap-4 py-4 border-y border-green-200 mb-4">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-800">{result.aiAnalysis.storiesGenerated}</div>
-                  <div className="text-xs text-green-600">Sub-tasks Created</div>
+                  <div className="text-xs text-green-600">{result.pendingStories ? "Stories to Review" : "Sub-tasks Created"}</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-800">{result.aiAnalysis.requirementsGenerated}</div>
@@ -825,6 +1708,104 @@ export default function Home() {
                 </div>
               )}
 
+              {result.pendingStories && (
+                <div className="p-3 bg-white border border-green-200">
+                  {createdEpicStories ? (
+                    <>
+                      <p className="text-sm font-medium text-green-800">Epic</p>
+                      <a
+                        href={createdEpicStories.epic.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 underline font-bold text-lg"
+                      >
+                        {createdEpicStories.epic.key}
+                      </a>
+                      <p className="text-sm font-medium text-green-800 mt-3 mb-2">Stories ({createdEpicStories.stories.length})</p>
+                      <ul className="space-y-1 text-sm">
+                        {createdEpicStories.stories.map((story) => (
+                          <li key={story.key}>
+                            <a
+                              href={story.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-2 py-1 bg-blue-100 text-blue-700 font-medium hover:bg-blue-200 mr-2"
+                            >
+                              {story.key}
+                            </a>
+                            {story.summary}
+                          </li>
+                        ))}
+                      </ul>
+                      {createdEpicStories.failedTasks.length > 0 && (
+                        <ul className="mt-2 text-sm text-red-600 list-disc ml-5">
+                          {createdEpicStories.failedTasks.map((task, i) => (
+                            <li key={i}>{task}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-sm font-medium text-green-800">
+                          Stories for review ({selectedStoryIndexes.length}/{result.pendingStories.stories.length} selected)
+                        </p>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setSelectedStoryIndexes(result.pendingStories!.stories.map((_, i) => i))}
+                            className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1"
+                          >
+                            All
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setSelectedStoryIndexes([])}
+                            className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1"
+                          >
+                            None
+                          </button>
+                        </div>
+                      </div>
+                      <ul className="space-y-3">
+                        {result.pendingStories.stories.map((story, i) => (
+                          <li key={i}>
+                            <label className="flex items-start gap-2 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={selectedStoryIndexes.includes(i)}
+                                onChange={() => toggleStory(i)}
+                                className="w-4 h-4 mt-1"
+                              />
+                              <div>
+                                <p className="text-sm font-medium">{story.title}</p>
+                                <ol className="text-sm text-gray-600 list-decimal ml-5">
+                                  {story.acceptanceCriteria.map((ac, j) => (
+                                    <li key={j}>{ac}</li>
+                                  ))}
+                                </ol>
+                              </div>
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+                      {storiesError && <p className="text-sm text-red-600 mt-2">{storiesError}</p>}
+                      <button
+                        type="button"
+                        onClick={createSelectedStories}
+                        disabled={isCreatingStories || selectedStoryIndexes.length === 0}
+                        className="mt-3 w-full bg-black text-white py-2 px-4 text-sm font-medium hover:bg-gray-800 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      >
+                        {isCreatingStories
+                          ? "Creating..."
+                          : `Create Epic + ${selectedStoryIndexes.length} Stor${selectedStoryIndexes.length === 1 ? "y" : "ies"} in ${jiraProject}`}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
               {result.confluenceUrl && (
                 <div className="p-3 bg-white border border-green-200">
                   <p className="text-sm font-medium text-green-800">Confluence FSD</p>
@@ -838,6 +1819,58 @@ export default function Home() {
                   </a>
                 </div>
               )}
+
+              {result.designTokens && (
+                <div className="p-3 bg-white border border-green-200 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-green-800">Design Tokens</p>
+                    <p className="text-xs text-gray-500">Style Dictionary-compatible JSON</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => downloadJson(result.designTokens, "tokens")}
+                    className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1"
+                  >
+                    Download tokens.json
+                  </button>
+                </div>
+              )}
+
+              {result.assetManifest && (
+                <div className="p-3 bg-white border border-green-200">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-green-800">Assets</p>
+                      <p className="text-xs text-gray-500">
+                        {result.assetManifest.assets.length} logo/icon/image file(s) - links expire after a few weeks
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => downloadJson(result.assetManifest, "assets")}
+                      className="text-sm text-gray-600 hover:text-black border border-gray-300 px-3 py-1"
+                    >
+                      Download manifest
+                    </button>
+                  </div>
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {result.assetManifest.assets.map((asset) => (
+                      <li key={asset.fileName} className="flex justify-between">
+                        {asset.url ? (
+                          <a href={asset.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                            {asset.fileName}
+                          </a>
+                        ) : (
+                          <span>{asset.fileName}</span>
+                        )}
+                        <span className="text-gray-500">
+                          {asset.kind}, {asset.width}x{asset.height}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -852,7 +1885,7 @@ export default function Home() {
             </li>
             <li className="flex items-start">
               <span className="mr-3 font-mono bg-black text-white w-6 h-6 flex items-center justify-center text-xs">2</span>
-              <span><strong>AI Processing:</strong> Deep analysis for Sitecore-ready structure - identifies link fields, image fields, logo fields, nested components, and data sources</span>
+              <span><strong>AI Processing:</strong> Deep analysis for a CMS-ready structure (Sitecore, AEM, Contentful or Optimizely) - identifies link fields, image fields, logo fields, nested components, and data sources</span>
             </li>
             <li className="flex items-start">
               <span className="mr-3 font-mono bg-black text-white w-6 h-6 flex items-center justify-center text-xs">3</span>
@@ -860,7 +1893,7 @@ export default function Home() {
             </li>
             <li className="flex items-start">
               <span className="mr-3 font-mono bg-black text-white w-6 h-6 flex items-center justify-center text-xs">4</span>
-              <span><strong>FSD Generation:</strong> Creates comprehensive FSD with component screenshot, Sitecore field mapping, and nested structure</span>
+              <span><strong>FSD Generation:</strong> Creates comprehensive FSD with component screenshot, CMS field mapping, and nested structure</span>
             </li>
           </ul>
         </div>
@@ -869,7 +1902,7 @@ export default function Home() {
       {/* Footer */}
       <footer className="border-t border-gray-200 mt-12">
         <div className="max-w-4xl mx-auto px-6 py-4">
-          <p className="text-sm text-gray-500">Figma to FSD Portal — Powered by OpenAI</p>
+          <p className="text-sm text-gray-500">Figma to FSD Portal — Powered by OpenAI, Anthropic or a local model</p>
         </div>
       </footer>
     </div>
@@ -0,0 +1,120 @@
+import { ExtractedComponent, ExtractedElement, isIconElement } from "./figma";
+
+export type AccessibilityCheck = "contrast" | "font-size" | "touch-target" | "icon-label";
+
+export interface AccessibilityFinding {
+  check: AccessibilityCheck;
+  element: string;
+  severity: "fail" | "warning";
+  detail: string;
+  wcag?: string; // success criterion, e.g. "1.4.3 Contrast (Minimum)" - omitted for best-practice advisories
+}
+
+// No WCAG criterion sets a minimum font size - that check is a best-practice advisory
+const WCAG_CRITERIA: Partial<Record<AccessibilityCheck, string>> = {
+  contrast: "1.4.3 Contrast (Minimum)",
+  "touch-target": "2.5.5 Target Size",
+  "icon-label": "1.1.1 Non-text Content / 4.1.2 Name, Role, Value",
+};
+
+const MIN_FONT_SIZE = 12;
+const MIN_TOUCH_TARGET = 44;
+const MAX_FINDINGS = 50;
+// Whole words only - hyphens join words here, so "Table", "Navy", "Linkedin-logo" and "Menu-item-text" do not match
+const INTERACTIVE_PATTERN = /(?<![\w-])(button|btn|link|cta|nav|tab|toggle|close|menu|arrow|chevron)s?(?![\w-])/i;
+
+type Rgba = [number, number, number, number];
+
+function parseHex(hex: string): Rgba {
+  const value = hex.replace("#", "");
+  const channel = (i: number) => parseInt(value.slice(i, i + 2), 16) / 255;
+  return [channel(0), channel(2), channel(4), value.length >= 8 ? channel(6) : 1];
+}
+
+// Alpha-composite a colour over an opaque backdrop
+function blend([r, g, b, a]: Rgba, [br, bg, bb]: Rgba): Rgba {
+  return [r * a + br * (1 - a), g * a + bg * (1 - a), b * a + bb * (1 - a), 1];
+}
+
+function luminance([r, g, b]: Rgba): number {
+  const linear = (c: number) => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+export function contrastRatio(foreground: string, background: string): number {
+  const bg = blend(parseHex(background), [1, 1, 1, 1]);
+  const fg = blend(parseHex(foreground), bg);
+  const [light, dark] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// 24px, or 18.66px (14pt) bold, counts as large text with a lower 3:1 requirement
+function isLargeText(el: ExtractedElement): boolean {
+  const size = el.fontInfo?.size || 0;
+  return size >= 24 || (size >= 18.66 && (el.fontInfo?.weight || 400) >= 700);
+}
+
+// Collapsed instances carry their text on the reference, e.g. a button label next to an icon
+function hasText(el: ExtractedElement): boolean {
+  return Boolean(el.text) || Boolean(el.componentRef?.texts?.length) || Boolean(el.children?.some(hasText));
+}
+
+export function auditAccessibility(component: ExtractedComponent): AccessibilityFinding[] {
+  const findings: AccessibilityFinding[] = [];
+  const add = (check: AccessibilityCheck, element: string, severity: AccessibilityFinding["severity"], detail: string) => {
+    if (findings.length < MAX_FINDINGS) {
+      findings.push({ check, element, severity, detail, wcag: WCAG_CRITERIA[check] });
+    }
+  };
+
+  // background: nearest solid fill behind the element, or "image" when an image fill sits behind it
+  function traverse(el: ExtractedElement, background: string | "image", parent?: ExtractedElement): void {
+    if (el.type === "TEXT" && el.text) {
+      const size = el.fontInfo?.size || 0;
+      if (size > 0 && size < MIN_FONT_SIZE) {
+        add("font-size", el.name, "warning", `${size}px text is below the recommended ${MIN_FONT_SIZE}px minimum (best practice)`);
+      }
+
+      if (el.fillColor && background === "image") {
+        add("contrast", el.name, "warning", "Text sits on an image - check contrast against the real image or add an overlay");
+      } else if (el.fillColor) {
+        const ratio = contrastRatio(el.fillColor, background);
+        const required = isLargeText(el) ? 3 : 4.5;
+        if (ratio < required) {
+          add("contrast", el.name, "fail", `${ratio.toFixed(2)}:1 (${el.fillColor} on ${background}), needs ${required}:1`);
+        }
+      }
+    }
+
+    const isInteractive = INTERACTIVE_PATTERN.test(el.name) || Boolean(el.interactions?.some((i) => i.trigger === "click"));
+    if (isInteractive && el.dimensions && el.type !== "TEXT") {
+      const { width, height } = el.dimensions;
+      if (width < MIN_TOUCH_TARGET || height < MIN_TOUCH_TARGET) {
+        add("touch-target", el.name, "fail", `${width}x${height}px is smaller than ${MIN_TOUCH_TARGET}x${MIN_TOUCH_TARGET}px`);
+      }
+    }
+
+    // An icon is unlabelled when nothing next to it (within its parent) carries text
+    if (isIconElement(el) && parent && !hasText(parent)) {
+      add("icon-label", el.name, isInteractive || INTERACTIVE_PATTERN.test(parent.name) ? "fail" : "warning",
+        `Icon in ${parent.name} has no visible text label - needs an aria-label or must be marked decorative`);
+    }
+
+    const childBackground = el.imageFills ? "image" : el.fillColor && el.type !== "TEXT" ? el.fillColor : background;
+    el.children?.forEach((child) => traverse(child, childBackground, el));
+  }
+
+  const rootBackground = component.fillColor || "#ffffff";
+  component.children.forEach((child) => traverse(child, rootBackground));
+  // Shared layers sit on whatever the first instance was drawn on
+  component.sharedComponents?.forEach((shared) =>
+    shared.children.forEach((child) => traverse(child, shared.background || rootBackground))
+  );
+
+  return findings;
+}
+
+// One line per finding for Jira descriptions
+export function describeFinding(finding: AccessibilityFinding): string {
+  return `[${finding.severity.toUpperCase()}] ${finding.element}: ${finding.detail} (WCAG ${finding.wcag})`;
+}
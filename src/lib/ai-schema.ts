@@ -0,0 +1,130 @@
+import type { AIGeneratedContent } from "./claude";
+import type { FieldRequirement } from "./confluence";
+import type { StoryDefinition } from "./jira";
+import { CmsProfile, getCmsProfile, toCmsFieldType } from "./cms";
+
+export interface AIValidationResult {
+  content: AIGeneratedContent | null; // null when there are errors
+  errors: string[]; // sent back to the model for a repair attempt
+  warnings: string[]; // acceptable, but surfaced to the user
+}
+
+const MIN_REQUIREMENTS = 6;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Field types are checked against the CMS profile's vocabulary
+export function validateAIContent(raw: unknown, cms: CmsProfile = getCmsProfile()): AIValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { content: null, errors: ["Response must be a single JSON object"], warnings };
+  }
+
+  if (!isNonEmptyString(raw.description)) {
+    errors.push("description must be a non-empty string");
+  }
+
+  function stringList(key: string, value: unknown, options: { required: boolean; min?: number }): string[] {
+    if (!Array.isArray(value)) {
+      errors.push(`${key} must be an array of strings`);
+      return [];
+    }
+    const items = value.filter(isNonEmptyString);
+    if (items.length !== value.length) {
+      errors.push(`${key} must only contain non-empty strings`);
+    }
+    if (options.required && items.length === 0) {
+      errors.push(`${key} must not be empty`);
+    } else if (options.min && items.length > 0 && items.length < options.min) {
+      warnings.push(`Only ${items.length} ${key} generated (expected at least ${options.min})`);
+    }
+    return items;
+  }
+
+  const stories: StoryDefinition[] = [];
+  if (!Array.isArray(raw.stories) || raw.stories.length === 0) {
+    errors.push("stories must be a non-empty array");
+  } else {
+    raw.stories.forEach((story, i) => {
+      if (!isRecord(story) || !isNonEmptyString(story.title)) {
+        errors.push(`stories[${i}].title must be a non-empty string`);
+        return;
+      }
+      const criteria = Array.isArray(story.acceptanceCriteria) ? story.acceptanceCriteria.filter(isNonEmptyString) : [];
+      if (criteria.length === 0) {
+        errors.push(`stories[${i}] ("${story.title}") must have at least one acceptanceCriteria string`);
+        return;
+      }
+      stories.push({ title: story.title, acceptanceCriteria: criteria });
+    });
+  }
+
+  const endUserRequirements = stringList("endUserRequirements", raw.endUserRequirements, { required: true, min: MIN_REQUIREMENTS });
+  const contentAuthorRequirements = stringList("contentAuthorRequirements", raw.contentAuthorRequirements, { required: true, min: MIN_REQUIREMENTS });
+  const designNotes = stringList("designNotes", raw.designNotes, { required: false });
+
+  const fieldRequirements: FieldRequirement[] = [];
+  if (!Array.isArray(raw.fieldRequirements)) {
+    errors.push("fieldRequirements must be an array");
+  } else {
+    if (raw.fieldRequirements.length === 0) {
+      warnings.push("No datasource fields generated - check the component really has no authorable content");
+    }
+    raw.fieldRequirements.forEach((field, i) => {
+      if (!isRecord(field) || !isNonEmptyString(field.element)) {
+        errors.push(`fieldRequirements[${i}].element must be a non-empty string`);
+        return;
+      }
+      const label = `fieldRequirements[${i}] ("${field.element}")`;
+      const fieldType = typeof field.fieldType === "string" ? toCmsFieldType(cms, field.fieldType) : null;
+      if (!fieldType) {
+        errors.push(`${label}.fieldType "${String(field.fieldType)}" is not a ${cms.label} field type - use one of: ${cms.fieldTypes.join(", ")}`);
+      }
+      if (typeof field.required !== "boolean") {
+        errors.push(`${label}.required must be true or false`);
+      }
+      for (const key of ["dataSource", "display", "notes"] as const) {
+        if (field[key] !== undefined && typeof field[key] !== "string") {
+          errors.push(`${label}.${key} must be a string`);
+        } else if (key === "dataSource" && !isNonEmptyString(field[key])) {
+          warnings.push(`${field.element}: no dataSource given`);
+        }
+      }
+      if (fieldType && typeof field.required === "boolean") {
+        fieldRequirements.push({
+          element: field.element,
+          fieldType,
+          required: field.required,
+          dataSource: typeof field.dataSource === "string" ? field.dataSource : "",
+          display: typeof field.display === "string" ? field.display : "",
+          notes: typeof field.notes === "string" ? field.notes : "",
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { content: null, errors, warnings };
+  }
+
+  return {
+    content: {
+      description: raw.description as string,
+      stories,
+      endUserRequirements,
+      contentAuthorRequirements,
+      designNotes,
+      fieldRequirements,
+    },
+    errors,
+    warnings,
+  };
+}
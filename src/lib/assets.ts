@@ -0,0 +1,126 @@
+import { ExtractedComponent, ExtractedElement, isIconElement } from "./figma";
+
+export type AssetKind = "image" | "logo" | "icon" | "vector";
+
+// An element worth handing to authors/FED as a file - image fills by imageRef, vectors by node id
+export interface AssetCandidate {
+  name: string;
+  kind: AssetKind;
+  nodeId?: string;
+  imageRef?: string;
+  width: number;
+  height: number;
+}
+
+export interface AssetManifestEntry {
+  fileName: string;
+  name: string; // Figma layer name
+  kind: AssetKind;
+  format: "svg" | "png"; // image fills download in their original format, png is the default name
+  url?: string; // Figma download URL - expires after 14-30 days, missing for offline imports
+  width: number;
+  height: number;
+  renditions: string[];
+}
+
+export interface AssetManifest {
+  component: string;
+  generatedAt: string;
+  assets: AssetManifestEntry[];
+}
+
+const MAX_ASSETS = 40;
+const VECTOR_TYPES = ["VECTOR", "BOOLEAN_OPERATION", "STAR", "POLYGON"];
+
+function assetKind(el: ExtractedElement): AssetKind | null {
+  const nameLower = `${el.name} ${el.componentRef?.name || ""}`.toLowerCase();
+  if (nameLower.includes("logo")) return "logo";
+  if (isIconElement(el)) return "icon";
+  if (VECTOR_TYPES.includes(el.type)) return "vector";
+  return null;
+}
+
+// Logos/icons are exported whole as SVG; image fills are collected wherever they appear
+export function collectAssetCandidates(component: ExtractedComponent): AssetCandidate[] {
+  const candidates: AssetCandidate[] = [];
+  const seen = new Set<string>();
+
+  function add(candidate: AssetCandidate, key: string): void {
+    if (seen.has(key) || candidates.length >= MAX_ASSETS) return;
+    seen.add(key);
+    candidates.push(candidate);
+  }
+
+  function traverse(el: ExtractedElement): void {
+    const width = el.dimensions?.width || 0;
+    const height = el.dimensions?.height || 0;
+
+    for (const fill of el.imageFills || []) {
+      add({ name: el.name, kind: "image", imageRef: fill.imageRef, width, height }, `fill:${fill.imageRef}`);
+    }
+
+    const kind = assetKind(el);
+    if (kind && el.nodeId && !el.imageFills) {
+      // Same icon in several places is one asset
+      add({ name: el.name, kind, nodeId: el.nodeId, width, height }, `${kind}:${el.componentRef?.id || el.name}:${width}x${height}`);
+      return;
+    }
+
+    el.children?.forEach(traverse);
+  }
+
+  component.children.forEach(traverse);
+  component.sharedComponents?.forEach((shared) => shared.children.forEach(traverse));
+  return candidates;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "asset";
+}
+
+// Upload sizes for authors, based on the size the asset is displayed at in the design
+function recommendRenditions(kind: AssetKind, width: number, height: number): string[] {
+  if (kind !== "image") {
+    return ["SVG (scales to any size)", `PNG fallback ${width * 2}x${height * 2} (2x)`];
+  }
+  return [
+    `${width}x${height} (1x)`,
+    `${width * 2}x${height * 2} (2x, recommended upload size)`,
+    "JPG/WebP for photos, PNG only when transparency is needed",
+  ];
+}
+
+export function buildAssetManifest(
+  componentName: string,
+  candidates: AssetCandidate[],
+  imageFillUrls: Record<string, string> = {},
+  svgUrls: Record<string, string> = {}
+): AssetManifest {
+  const usedFileNames = new Set<string>();
+
+  const assets = candidates.map((candidate): AssetManifestEntry => {
+    const format = candidate.kind === "image" ? "png" : "svg";
+    const base = slugify(candidate.name);
+    let fileName = `${base}.${format}`;
+    for (let i = 2; usedFileNames.has(fileName); i++) {
+      fileName = `${base}-${i}.${format}`;
+    }
+    usedFileNames.add(fileName);
+
+    return {
+      fileName,
+      name: candidate.name,
+      kind: candidate.kind,
+      format,
+      url: candidate.imageRef ? imageFillUrls[candidate.imageRef] : candidate.nodeId ? svgUrls[candidate.nodeId] : undefined,
+      width: candidate.width,
+      height: candidate.height,
+      renditions: recommendRenditions(candidate.kind, candidate.width, candidate.height),
+    };
+  });
+
+  return { component: componentName, generatedAt: new Date().toISOString(), assets };
+}
@@ -1,17 +1,21 @@
-import OpenAI from "openai";
-import { ExtractedComponent, ExtractedElement } from "./figma";
+import {
+  ExtractedComponent,
+  ExtractedElement,
+  describeLayout,
+  describeCornerRadius,
+  describeGradient,
+  describeEffect,
+  describeInteraction,
+  describePruneStats,
+} from "./figma";
 import { StoryDefinition } from "./jira";
-import { FSDData, FieldRequirement } from "./confluence";
-
-// Check if OpenAI API key is configured
-export function isOpenAIConfigured(): boolean {
-  return Boolean(process.env.OPENAI_API_KEY);
-}
-
-// OpenAI client - only initialize if API key is present
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-  : null;
+import { collectDesignTokens } from "./tokens";
+import { AnalysisCoverage, FSDData, FieldRequirement } from "./confluence";
+import { completeText, LLMImage, LLMSelection } from "./llm";
+import { validateAIContent } from "./ai-schema";
+import { CmsProfile, getCmsProfile } from "./cms";
+import { classifyElement } from "./rules";
+import { mapWithConcurrency } from "./concurrency";
 
 export interface AIGeneratedContent {
   description: string;
@@ -20,34 +24,124 @@ export interface AIGeneratedContent {
   contentAuthorRequirements: string[];
   designNotes: string[];
   fieldRequirements: FieldRequirement[];
+  warnings?: string[]; // schema warnings that did not block publishing
+  coverage?: AnalysisCoverage;
+}
+
+// Re-prompts with the validation errors before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface ContentGenerationOptions {
+  llm?: LLMSelection;
+  cms?: CmsProfile;
+  // Exported screenshots - attached as images when the model supports vision
+  screenshots?: { desktop?: string; tablet?: string; mobile?: string };
+  onRepair?: (errors: string[], attempt: number) => void;
+  onSection?: (name: string, index: number, total: number) => void; // large components only
 }
 
 // Limit data to avoid token limits
 const MAX_ELEMENTS = 100;
 const MAX_DEPTH = 5;
 
-function formatComponentForDeepAI(component: ExtractedComponent): string {
+// Components past the limits above are analysed section by section and merged
+const SECTION_ELEMENTS = 80;
+const MAX_SECTIONS = 8;
+const SECTION_CONCURRENCY = 2;
+
+interface AnalysisSection {
+  name: string; // e.g. "Header / Mega Menu / Column 1, Column 2"
+  elements: ExtractedElement[];
+}
+
+function countElements(elements: ExtractedElement[]): number {
+  return elements.reduce((sum, el) => sum + 1 + countElements(el.children || []), 0);
+}
+
+// Elements the ELEMENT ANALYSIS below reaches - it stops at MAX_ELEMENTS and MAX_DEPTH
+function countAnalyzed(elements: ExtractedElement[]): number {
+  let count = 0;
+  function visit(el: ExtractedElement, depth: number): void {
+    if (count >= MAX_ELEMENTS || depth > MAX_DEPTH) return;
+    count++;
+    el.children?.forEach((child) => visit(child, depth + 1));
+  }
+  elements.forEach((el) => visit(el, 0));
+  return count;
+}
+
+// Consecutive siblings are grouped up to SECTION_ELEMENTS; a bigger element is split into its children.
+// containers counts the split elements - they are represented by the section names.
+function splitIntoSections(elements: ExtractedElement[], path: string = "", containers = { count: 0 }): AnalysisSection[] {
+  const sections: AnalysisSection[] = [];
+  let current: ExtractedElement[] = [];
+  let currentSize = 0;
+  const flush = () => {
+    if (current.length === 0) return;
+    const names = current.slice(0, 3).map((el) => el.name).join(", ");
+    sections.push({ name: `${path}${names}${current.length > 3 ? ` +${current.length - 3} more` : ""}`, elements: current });
+    current = [];
+    currentSize = 0;
+  };
+
+  for (const el of elements) {
+    const size = countElements([el]);
+    if (size > SECTION_ELEMENTS && el.children?.length) {
+      flush();
+      containers.count++;
+      sections.push(...splitIntoSections(el.children, `${path}${el.name} / `, containers));
+      continue;
+    }
+    if (currentSize + size > SECTION_ELEMENTS) {
+      flush();
+    }
+    current.push(el);
+    currentSize += size;
+  }
+  flush();
+  return sections;
+}
+
+// Section passes leave out properties, comments and shared components - the overview pass covers them once
+function formatComponentForDeepAI(component: ExtractedComponent, includeComponentContext: boolean = true): string {
   const lines: string[] = [];
   lines.push(`Component: ${component.name}`);
   lines.push(`Type: ${component.type}`);
   lines.push(`Dimensions: ${component.dimensions.width}x${component.dimensions.height}px`);
+  if (component.layout) {
+    lines.push(`Layout: ${describeLayout(component.layout)}`);
+  }
+  if (includeComponentContext && component.properties && component.properties.length > 0) {
+    lines.push("");
+    lines.push("=== COMPONENT PROPERTIES (variants/toggles - become presentation settings, NOT content fields) ===");
+    component.properties.forEach((p) => lines.push(
+      `- ${p.name} (${p.type})${p.options ? `: ${p.options.join(" | ")}` : ""}${p.defaultValue ? ` default ${p.defaultValue}` : ""}`
+    ));
+  }
   lines.push("");
 
   // Collect detailed element information
   const elementTypes: Record<string, number> = {};
-  const textElements: { name: string; text: string; parent: string }[] = [];
+  const textElements: { name: string; text: string; parent: string; typeToken?: string }[] = [];
   const imageElements: { name: string; dimensions?: string; parent: string }[] = [];
   const linkElements: { name: string; children: string[]; parent: string }[] = [];
   const logoElements: { name: string; parent: string }[] = [];
   const iconElements: { name: string; parent: string }[] = [];
   const groupElements: { name: string; childCount: number; children: string[] }[] = [];
+  const layoutElements: { name: string; spec: string }[] = [];
+  const imageFillElements: { name: string; dimensions?: string; scaleMode: string; isBackground: boolean; parent: string }[] = [];
+  const decorativeElements: { name: string; styles: string[]; parent: string }[] = [];
+  const interactionElements: { name: string; interactions: string[] }[] = [];
+  if (component.interactions) {
+    interactionElements.push({ name: component.name, interactions: component.interactions.map(describeInteraction) });
+  }
   let elementCount = 0;
 
   function analyzeElements(el: ExtractedElement, depth: number = 0, parentName: string = "root"): void {
     if (elementCount >= MAX_ELEMENTS || depth > MAX_DEPTH) return;
     elementCount++;
 
-    const nameLower = el.name.toLowerCase();
+    const roles = classifyElement(el);
     elementTypes[el.type] = (elementTypes[el.type] || 0) + 1;
 
     // Collect text content with context
@@ -55,12 +149,38 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
       textElements.push({
         name: el.name,
         text: el.text.substring(0, 100),
+        parent: parentName,
+        typeToken: el.tokens?.find((t) => t.property === "text")?.name
+      });
+    }
+
+    // Image fills are real content images - a fill behind child content is a background image
+    if (el.imageFills && imageFillElements.length < 15) {
+      imageFillElements.push({
+        name: el.name,
+        dimensions: el.dimensions ? `${el.dimensions.width}x${el.dimensions.height}` : undefined,
+        scaleMode: el.imageFills[0].scaleMode,
+        isBackground: Boolean(el.children && el.children.length > 0),
+        parent: parentName
+      });
+    }
+
+    // Gradients and effects are decorative styling, not content
+    if ((el.gradients || el.effects) && decorativeElements.length < 15) {
+      decorativeElements.push({
+        name: el.name,
+        styles: [...(el.gradients || []).map(describeGradient), ...(el.effects || []).map(describeEffect)],
         parent: parentName
       });
     }
 
+    // Prototype interactions are authored behaviour - pass them on as facts
+    if (el.interactions && interactionElements.length < 20) {
+      interactionElements.push({ name: el.name, interactions: el.interactions.map(describeInteraction) });
+    }
+
     // Identify images
-    if (el.type === "RECTANGLE" || el.type === "IMAGE" || nameLower.includes("image") || nameLower.includes("img") || nameLower.includes("photo") || nameLower.includes("banner")) {
+    if (roles.image) {
       if (imageElements.length < 15) {
         imageElements.push({
           name: el.name,
@@ -71,17 +191,17 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
     }
 
     // Identify logos
-    if (nameLower.includes("logo")) {
+    if (roles.logo) {
       logoElements.push({ name: el.name, parent: parentName });
     }
 
     // Identify icons
-    if (nameLower.includes("icon") || nameLower.includes("ico")) {
+    if (roles.icon) {
       iconElements.push({ name: el.name, parent: parentName });
     }
 
     // Identify links/buttons with their children
-    if (nameLower.includes("link") || nameLower.includes("button") || nameLower.includes("cta") || nameLower.includes("nav")) {
+    if (roles.link) {
       if (linkElements.length < 15) {
         const childNames = el.children ? el.children.slice(0, 5).map(c => c.name) : [];
         linkElements.push({
@@ -93,7 +213,7 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
     }
 
     // Identify repeatable groups (lists, grids, navigation items)
-    if ((nameLower.includes("item") || nameLower.includes("card") || nameLower.includes("column") || nameLower.includes("row") || nameLower.includes("list")) && el.children && el.children.length > 0) {
+    if (roles.group && el.children) {
       if (groupElements.length < 10) {
         groupElements.push({
           name: el.name,
@@ -103,6 +223,15 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
       }
     }
 
+    // Collect auto-layout, constraints and corner radius
+    if ((el.layout || el.constraints || el.cornerRadius) && layoutElements.length < 20) {
+      const spec: string[] = [];
+      if (el.layout) spec.push(describeLayout(el.layout));
+      if (el.constraints) spec.push(`constraints ${el.constraints.horizontal}/${el.constraints.vertical}`);
+      if (el.cornerRadius) spec.push(`radius ${describeCornerRadius(el.cornerRadius)}`);
+      layoutElements.push({ name: el.name, spec: spec.join("; ") });
+    }
+
     if (el.children) {
       el.children.forEach((child) => analyzeElements(child, depth + 1, el.name));
     }
@@ -114,11 +243,15 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
   lines.push("=== ELEMENT ANALYSIS ===");
   lines.push(`Total elements analyzed: ${elementCount}`);
   lines.push(`Element types: ${Object.entries(elementTypes).map(([t, c]) => `${t}(${c})`).join(", ")}`);
+  const pruned = component.pruned ? describePruneStats(component.pruned) : "";
+  if (pruned) {
+    lines.push(`Layers left out (not content, do NOT create fields for them): ${pruned}`);
+  }
 
   if (textElements.length > 0) {
     lines.push("");
     lines.push("=== TEXT CONTENT (with context) ===");
-    textElements.forEach((t) => lines.push(`- "${t.text}" [${t.name}] in ${t.parent}`));
+    textElements.forEach((t) => lines.push(`- "${t.text}" [${t.name}] in ${t.parent}${t.typeToken ? ` (${t.typeToken})` : ""}`));
   }
 
   if (logoElements.length > 0) {
@@ -133,6 +266,20 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
     imageElements.forEach((i) => lines.push(`- ${i.name} ${i.dimensions ? `(${i.dimensions})` : ""} in ${i.parent}`));
   }
 
+  if (imageFillElements.length > 0) {
+    lines.push("");
+    lines.push("=== IMAGE FILLS (actual images placed in the design) ===");
+    imageFillElements.forEach((i) => lines.push(
+      `- ${i.name} ${i.dimensions ? `(${i.dimensions})` : ""} ${i.isBackground ? "BACKGROUND IMAGE behind child content" : "image"}, scale ${i.scaleMode.toLowerCase()} in ${i.parent}`
+    ));
+  }
+
+  if (decorativeElements.length > 0) {
+    lines.push("");
+    lines.push("=== GRADIENTS & EFFECTS (decorative styling) ===");
+    decorativeElements.forEach((d) => lines.push(`- ${d.name} in ${d.parent}: ${d.styles.join("; ")}`));
+  }
+
   if (iconElements.length > 0) {
     lines.push("");
     lines.push("=== ICON ELEMENTS ===");
@@ -150,6 +297,37 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
     });
   }
 
+  if (interactionElements.length > 0) {
+    lines.push("");
+    lines.push("=== PROTOTYPE INTERACTIONS (facts from the Figma prototype) ===");
+    interactionElements.forEach((i) => lines.push(`- ${i.name}: ${i.interactions.join("; ")}`));
+  }
+
+  if (includeComponentContext && component.comments && component.comments.length > 0) {
+    lines.push("");
+    lines.push("=== DESIGNER COMMENTS (behaviour notes left on the design in Figma) ===");
+    component.comments.slice(0, 30).forEach((c) => lines.push(
+      `${c.isReply ? "  > " : "- "}${c.author}${c.anchor ? ` on ${c.anchor}` : ""}${c.resolved && !c.isReply ? " (resolved)" : ""}: "${c.message.replace(/\s+/g, " ")}"`
+    ));
+  }
+
+  if (includeComponentContext && component.sharedComponents && component.sharedComponents.length > 0) {
+    lines.push("");
+    lines.push("=== SHARED COMPONENTS (instances of one main component - ONE child content structure each) ===");
+    component.sharedComponents.slice(0, 15).forEach((shared) => {
+      lines.push(`- ${shared.name}: ${shared.instanceCount} instance(s) in ${shared.usedIn.join(", ")}`);
+      if (shared.variants.length > 0) {
+        lines.push(`  Variants used: ${shared.variants.join("; ")}`);
+      }
+      if (shared.children.length > 0) {
+        lines.push(`  Layers: ${shared.children.slice(0, 8).map((c) => `${c.name} (${c.componentRef ? `instance of ${c.componentRef.name}` : c.type})`).join(", ")}`);
+      }
+      if (shared.sampleText.length > 0) {
+        lines.push(`  Sample content: ${shared.sampleText.map((t) => `"${t}"`).join(", ")}`);
+      }
+    });
+  }
+
   if (groupElements.length > 0) {
     lines.push("");
     lines.push("=== REPEATABLE GROUPS/LISTS ===");
@@ -159,6 +337,19 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
     });
   }
 
+  if (layoutElements.length > 0) {
+    lines.push("");
+    lines.push("=== LAYOUT SPEC (auto-layout, spacing, constraints) ===");
+    layoutElements.forEach((l) => lines.push(`- ${l.name}: ${l.spec}`));
+  }
+
+  const designTokens = collectDesignTokens(component);
+  if (designTokens.length > 0) {
+    lines.push("");
+    lines.push("=== DESIGN TOKENS (use these names instead of raw values) ===");
+    designTokens.slice(0, 30).forEach((t) => lines.push(`- ${t.name} = ${t.value} (used by ${t.usedBy.join(", ")})`));
+  }
+
   // Full hierarchical structure (deeper)
   lines.push("");
   lines.push("=== FULL COMPONENT HIERARCHY ===");
@@ -170,6 +361,18 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
     if (el.dimensions) {
       line += ` [${el.dimensions.width}x${el.dimensions.height}]`;
     }
+    if (el.layout) {
+      line += ` {${el.layout.direction}, gap ${el.layout.itemSpacing}}`;
+    }
+    if (el.componentRef) {
+      line += ` instance of ${el.componentRef.name}${el.componentRef.variant ? ` (${el.componentRef.variant})` : ""}`;
+      if (el.componentRef.texts) {
+        line += ` texts: ${el.componentRef.texts.slice(0, 3).map((t) => `"${t.text.substring(0, 30)}"`).join(", ")}`;
+      }
+    }
+    if (el.vectorIcon) {
+      line += " vector icon";
+    }
     if (el.text) {
       line += ` text: "${el.text.substring(0, 30)}..."`;
     }
@@ -191,46 +394,89 @@ function formatComponentForDeepAI(component: ExtractedComponent): string {
   return lines.join("\n");
 }
 
-export async function generateContentWithAI(
+// Large components: one pass per section, then an overview pass for what belongs to the whole component
+type AnalysisPass =
+  | { kind: "section"; name: string; index: number; total: number }
+  | { kind: "overview"; sections: { name: string; description: string }[] };
+
+// One analysis call (plus repairs) - for a whole component, one section of it, or the overview of its sections
+async function analyzeComponent(
   component: ExtractedComponent,
-  figmaUrl: string
+  figmaUrl: string,
+  options: ContentGenerationOptions,
+  pass?: AnalysisPass
 ): Promise<AIGeneratedContent> {
-  const componentDescription = formatComponentForDeepAI(component);
+  const { llm = {}, cms = getCmsProfile(), screenshots = {}, onRepair } = options;
+  const componentDescription = formatComponentForDeepAI(component, pass?.kind !== "section");
+  const { kinds, terms } = cms;
+  const images: LLMImage[] = (["desktop", "tablet", "mobile"] as const)
+    .filter((label) => screenshots[label])
+    .map((label) => ({ url: screenshots[label]!, label }));
+  // The element list is truncated - the rendering is the better source for layout and breakpoints
+  const screenshotSection = images.length > 0
+    ? `
+=== SCREENSHOTS ===
+The attached images are the rendered design, in this order: ${images.map((image) => image.label).join(", ")}.
+- Take layout, visual hierarchy, alignment and spacing from the images; the component data above is capped at ${MAX_ELEMENTS} elements
+- Write the breakpoint designNotes ("On tablet...", "On mobile...") from what the tablet/mobile images actually show
+- Use the component data for names, text content, tokens and interactions
+`
+    : "";
+  let sectionPrompt = "";
+  if (pass?.kind === "section") {
+    sectionPrompt = `
+=== SECTION ${pass.index + 1} OF ${pass.total}: ${pass.name} ===
+This component is too large for one pass, so it is analysed section by section and the results are merged.
+- Only describe and create fields for the elements in COMPONENT DATA - the other sections are analysed separately
+- Component properties, designer comments and shared components are covered once in a separate overview pass - do NOT add fields for them
+- Name child ${terms.template}s after the design element (e.g. dataSource "Child item: Nav Item") so the same ${terms.template} found in several sections merges
+- The description summarises this section only
+`;
+  } else if (pass?.kind === "overview") {
+    sectionPrompt = `
+=== OVERVIEW OF ${pass.sections.length} SECTIONS ===
+The elements of this component were analysed section by section:
+${pass.sections.map((section) => `- ${section.name}: ${section.description}`).join("\n")}
+- The description (2-3 sentences) covers the whole component, combining the section summaries above
+- Only create fields for the SHARED COMPONENTS and text COMPONENT PROPERTIES - the sections already cover their own elements
+- Base requirements and designNotes on the DESIGNER COMMENTS, COMPONENT PROPERTIES and how the sections fit together
+`;
+  }
 
-  const prompt = `You are a senior Sitecore architect creating FSD documentation. Analyze this Figma component DEEPLY.
+  const prompt = `You are a ${cms.architect} creating FSD documentation. Analyze this Figma component DEEPLY.
 
 COMPONENT DATA:
 ${componentDescription}
 
 FIGMA URL: ${figmaUrl}
-
+${screenshotSection}${sectionPrompt}
 === CRITICAL ANALYSIS RULES ===
 
 1. FIELD TYPE SELECTION (Think carefully!):
-   - Title/Heading (short, one line) = "Single-Line Text"
-   - Label/Button text (short) = "Single-Line Text"
-   - Short description (1-2 sentences) = "Multi-Line Text"
-   - Long description/paragraph/content = "Rich Text"
-   - Link (text + URL together) = "General Link" (ONE field, NOT separate text+url)
-   - Image/Photo/Banner = "Image"
-   - Logo = "Image" (with separate "General Link" only if clickable)
-   - List of items/links = "Multilist" pointing to child template
-   - Dropdown selection = "Droptree"
+   - The target CMS is ${cms.label}. fieldType MUST be exactly one of: ${cms.fieldTypes.join(", ")}
+   - every field MUST have "required": true or false
+   - Title/Heading (short, one line) = "${kinds.singleLine}"
+   - Label/Button text (short) = "${kinds.singleLine}"
+   - Short description (1-2 sentences) = "${kinds.multiLine}"
+   - Long description/paragraph/content = "${kinds.richText}"
+   - Image/Photo/Banner = "${kinds.image}"
+${cms.fieldTypeRules.map((rule) => `   - ${rule}`).join("\n")}
+   - IMAGE FILLS listed as BACKGROUND IMAGE = "${kinds.image}" field (e.g. "Background Image"), content managed
+   - GRADIENTS & EFFECTS are decorative styling = NOT a field; describe them in designNotes instead
+     (e.g. a gradient overlay on a hero is part of the design, not an author-managed image)
 
 2. NESTED STRUCTURE THINKING:
-   Example for Footer:
-   - Footer Template has: Logo (Image), Logo Link (General Link), Footer Columns (Multilist → Footer Column)
-   - Footer Column Template has: Column Title (Single-Line Text), Column Links (Multilist → Footer Link)
-   - Footer Link Template has: Link (General Link) - this ONE field has both text and URL
-
-   Example for Header:
-   - Header Template has: Logo (Image), Navigation Items (Multilist → Nav Item)
-   - Nav Item Template has: Link (General Link), Has Dropdown (Checkbox), Dropdown Items (Multilist → Nav Item)
+   Examples (${cms.label}):
+${cms.nestingExamples.map((example) => `   - ${example}`).join("\n")}
 
 3. REQUIREMENTS GENERATION:
    - Generate 6-10 end user requirements, each mentioning SPECIFIC elements from the design
    - Generate 6-10 content author requirements, each about SPECIFIC editable fields
    - NO generic statements like "I can view the component" - be SPECIFIC
+   - DESIGNER COMMENTS describe intended behaviour (autoplay, limits, animations) - turn them into requirements
+     and designNotes rather than ignoring them
+   - PROTOTYPE INTERACTIONS are facts: state them as written (e.g. "I can click the CTA to navigate to the Contact Us page")
+     and describe hover/press variant changes in designNotes. Do NOT invent destinations or hover states that are not listed
 
 === GENERATE THIS JSON ===
 {
@@ -266,93 +512,212 @@ FIGMA URL: ${figmaUrl}
     "[Component] spans full width on desktop",
     "On tablet, [specific behavior]",
     "On mobile, [elements] stack vertically",
-    "[Specific spacing/alignment notes]",
-    "[Hover states for interactive elements]"
+    "[Specific spacing/alignment notes - use the LAYOUT SPEC values, e.g. 24px gap between columns]",
+    "[Colors/typography by DESIGN TOKEN name, e.g. Column titles use type/heading-4 in color/brand/primary]",
+    "[Hover states from PROTOTYPE INTERACTIONS, e.g. CTA changes to the State=Hover variant on hover]"
   ],
 
-  "fieldRequirements": [
-    {
-      "element": "Logo",
-      "fieldType": "Image",
-      "required": true,
-      "dataSource": "Content Managed",
-      "display": "Top left aligned",
-      "notes": "Recommended size: 150x50px"
-    },
-    {
-      "element": "Logo Link",
-      "fieldType": "General Link",
-      "required": false,
-      "dataSource": "Content Managed",
-      "display": "Wraps logo image",
-      "notes": "Links to homepage"
-    },
-    {
-      "element": "Column Title",
-      "fieldType": "Single-Line Text",
-      "required": true,
-      "dataSource": "Content Managed",
-      "display": "Bold heading above links",
-      "notes": "Max 50 characters"
-    },
-    {
-      "element": "Column Links",
-      "fieldType": "Multilist",
-      "required": true,
-      "dataSource": "Child Link Items",
-      "display": "Vertical list under title",
-      "notes": "Each link item has General Link field"
-    }
-  ]
+  "fieldRequirements": ${JSON.stringify(cms.exampleFields, null, 2).replace(/\n/g, "\n  ")}
 }
 
 === IMPORTANT ===
 - DO NOT include "sitecoreStructure" in output - only the fields above
 - Analyze EVERY element in the component data - don't miss any
 - Think about parent-child relationships (component → sections → items)
-- For repeating items, use Multilist pointing to child items
-- General Link = ONE field for both link text AND URL
+- For repeating items, use "${kinds.list}" pointing to child items
+- COMPONENT PROPERTIES of type variant/boolean/instance-swap are ${terms.renderingParameters.toLowerCase()} - do NOT add them to fieldRequirements
+  (text properties ARE content and should be fields)
+- SHARED COMPONENTS map to ONE reusable child ${terms.template} + ${terms.datasource} each, no matter how many instances there are.
+  Add a single fieldRequirements entry per shared component (dataSource "Shared: <component name>") - do NOT repeat its fields per instance
 - Generate MANY requirements (6-10 each), all specific to actual elements
 
 Return ONLY valid JSON.`;
 
-  if (!openai) {
-    throw new Error("OpenAI API key is not configured. Please add OPENAI_API_KEY to your .env file.");
+  let content = await completeText(llm, { prompt, maxTokens: 6000, json: true, images });
+  for (let attempt = 1; ; attempt++) {
+    let errors: string[];
+    try {
+      const result = validateAIContent(JSON.parse(content), cms);
+      if (result.content) {
+        return { ...result.content, warnings: result.warnings.length > 0 ? result.warnings : undefined };
+      }
+      errors = result.errors;
+    } catch {
+      errors = [content ? "Response is not valid JSON" : "Response was empty"];
+    }
+
+    if (attempt > MAX_REPAIR_ATTEMPTS) {
+      console.error("AI response failed validation:", errors, content);
+      const where = pass?.kind === "section" ? ` for section "${pass.name}"` : pass?.kind === "overview" ? " for the overview pass" : "";
+      throw new Error(`AI response failed validation${where} after ${attempt} attempts: ${errors.slice(0, 3).join("; ")}`);
+    }
+
+    onRepair?.(errors, attempt);
+    content = await completeText(llm, {
+      prompt: `${prompt}
+
+=== YOUR PREVIOUS RESPONSE ===
+${content}
+
+=== VALIDATION ERRORS (fix ALL of them) ===
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Return the complete corrected JSON object only.`,
+      maxTokens: 6000,
+      json: true,
+      images,
+    });
   }
+}
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [{ role: "user", content: prompt }],
-    max_tokens: 6000,
-    response_format: { type: "json_object" },
+function normalizeKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function uniqueStrings(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = normalizeKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
   });
+}
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error("No response from OpenAI");
+// Child templates and shared components ("Child item: ...", "Shared: ...") are the same in every section, so they are kept once
+const MERGEABLE_SOURCE = /^(child item|shared):/i;
+
+// Template fields merge across sections on element + dataSource; root-level fields stay per section,
+// prefixed with the section name when two sections produce the same name
+function mergeSectionResults(results: AIGeneratedContent[], sections: AnalysisSection[]): Omit<AIGeneratedContent, "description"> {
+  const fields: FieldRequirement[] = [];
+  const templateFields = new Map<string, { field: FieldRequirement; section: string }>();
+  const rootFields: { field: FieldRequirement; section: string; key: string }[] = [];
+  const stories = new Map<string, StoryDefinition>();
+  const warnings: string[] = [];
+
+  results.forEach((result, i) => {
+    const section = sections[i].name;
+    for (const field of result.fieldRequirements) {
+      const key = `${normalizeKey(field.dataSource)}|${normalizeKey(field.element)}`;
+      if (!MERGEABLE_SOURCE.test(field.dataSource.trim())) {
+        const copy = { ...field };
+        rootFields.push({ field: copy, section, key });
+        fields.push(copy);
+        continue;
+      }
+      const existing = templateFields.get(key);
+      if (!existing) {
+        const merged = { ...field };
+        templateFields.set(key, { field: merged, section });
+        fields.push(merged);
+      } else if (normalizeKey(existing.field.fieldType) !== normalizeKey(field.fieldType)) {
+        // Keep the first type, but flag the conflict on the field itself so it is reviewed in the FSD
+        const conflict = `Typed ${existing.field.fieldType} in ${existing.section} and ${field.fieldType} in ${section} - confirm the field type`;
+        existing.field.notes = existing.field.notes ? `${existing.field.notes} ${conflict}` : conflict;
+        warnings.push(`${field.element} (${field.dataSource}): ${conflict}`);
+      }
+    }
+    for (const story of result.stories) {
+      const key = normalizeKey(story.title);
+      const existing = stories.get(key);
+      stories.set(key, existing
+        ? { ...existing, acceptanceCriteria: uniqueStrings([...existing.acceptanceCriteria, ...story.acceptanceCriteria]) }
+        : story);
+    }
+    result.warnings?.forEach((warning) => warnings.push(`${section}: ${warning}`));
+  });
+
+  const sectionsPerKey = new Map<string, Set<string>>();
+  rootFields.forEach(({ key, section }) => sectionsPerKey.set(key, (sectionsPerKey.get(key) || new Set()).add(section)));
+  for (const { field, section, key } of rootFields) {
+    if (sectionsPerKey.get(key)!.size > 1) {
+      field.element = `${section} / ${field.element}`;
+    }
+  }
+
+  return {
+    stories: [...stories.values()],
+    endUserRequirements: uniqueStrings(results.flatMap((r) => r.endUserRequirements)),
+    contentAuthorRequirements: uniqueStrings(results.flatMap((r) => r.contentAuthorRequirements)),
+    designNotes: uniqueStrings(results.flatMap((r) => r.designNotes)),
+    fieldRequirements: fields,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+// Map-reduce for components past the single-pass limits: analyse each section, then an overview pass, and merge
+async function analyzeInSections(
+  component: ExtractedComponent,
+  figmaUrl: string,
+  options: ContentGenerationOptions,
+  totalElements: number,
+  allSections: AnalysisSection[],
+  containers: number
+): Promise<AIGeneratedContent> {
+  const sections = allSections.slice(0, MAX_SECTIONS);
+  const dropped = allSections.slice(MAX_SECTIONS);
+  const total = sections.length + 1;
+
+  const results = await mapWithConcurrency(sections, SECTION_CONCURRENCY, (section, index) => {
+    options.onSection?.(section.name, index, total);
+    return analyzeComponent({ ...component, children: section.elements }, figmaUrl, options, { kind: "section", ...section, index, total });
+  });
+
+  // Properties, comments and shared components are sent once here instead of with every section
+  const overviewName = "Whole component";
+  options.onSection?.(overviewName, sections.length, total);
+  const overview = await analyzeComponent({ ...component, children: [] }, figmaUrl, options, {
+    kind: "overview",
+    sections: results.map((result, i) => ({ name: sections[i].name, description: result.description })),
+  });
+  const merged = mergeSectionResults([...results, overview], [...sections, { name: overviewName, elements: [] }]);
+
+  const analyzedElements = containers + sections.reduce((sum, section) => sum + countAnalyzed(section.elements), 0);
+  const droppedElements = dropped.reduce((sum, section) => sum + countElements(section.elements), 0);
+  const omitted: string[] = [];
+  if (dropped.length > 0) {
+    omitted.push(`${dropped.length} section(s) past the ${MAX_SECTIONS}-section limit (${droppedElements} elements): ${dropped.map((s) => s.name).join("; ")}`);
   }
+  const tooDeep = totalElements - analyzedElements - droppedElements;
+  if (tooDeep > 0) {
+    omitted.push(`${tooDeep} element(s) nested more than ${MAX_DEPTH} levels inside their section`);
+  }
+
+  return {
+    ...merged,
+    description: overview.description,
+    coverage: { sections: sections.map((s) => s.name), totalElements, analyzedElements, omitted },
+  };
+}
 
-  try {
-    const parsed = JSON.parse(content);
-    return {
-      description: parsed.description || `${component.name} component`,
-      stories: parsed.stories || [],
-      endUserRequirements: parsed.endUserRequirements || [],
-      contentAuthorRequirements: parsed.contentAuthorRequirements || [],
-      designNotes: parsed.designNotes || [],
-      fieldRequirements: parsed.fieldRequirements || [],
-      // sitecoreStructure removed - not needed in FSD
-    };
-  } catch (parseError) {
-    console.error("Failed to parse OpenAI response:", content);
-    throw new Error("Failed to parse AI response. Please try again.");
+export async function generateContentWithAI(
+  component: ExtractedComponent,
+  figmaUrl: string,
+  options: ContentGenerationOptions = {}
+): Promise<AIGeneratedContent> {
+  const totalElements = countElements(component.children);
+  const analyzedElements = countAnalyzed(component.children);
+  if (analyzedElements < totalElements) {
+    // Only worth the extra calls when there is more than one section - depth alone does not split
+    const containers = { count: 0 };
+    const sections = splitIntoSections(component.children, "", containers);
+    if (sections.length > 1) {
+      return analyzeInSections(component, figmaUrl, options, totalElements, sections, containers.count);
+    }
   }
+  const content = await analyzeComponent(component, figmaUrl, options);
+  const omitted = analyzedElements < totalElements
+    ? [`${totalElements - analyzedElements} element(s) past the ${MAX_ELEMENTS}-element or ${MAX_DEPTH}-level limit of a single pass`]
+    : [];
+  return { ...content, coverage: { sections: [], totalElements, analyzedElements, omitted } };
 }
 
 export async function generateEpicDescription(
   componentName: string,
   component: ExtractedComponent,
-  figmaUrl: string
+  figmaUrl: string,
+  llm: LLMSelection = {}
 ): Promise<string> {
   // Use a brief summary for the epic description
   const summary = `Component: ${componentName}
@@ -360,28 +725,17 @@ Type: ${component.type}
 Dimensions: ${component.dimensions.width}x${component.dimensions.height}px
 Child elements: ${component.children.length}`;
 
-  if (!openai) {
-    throw new Error("OpenAI API key is not configured. Please add OPENAI_API_KEY to your .env file.");
-  }
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [
-      {
-        role: "user",
-        content: `Write a brief Jira Epic description (2-3 paragraphs) for implementing this UI component:
+  const content = await completeText(llm, {
+    prompt: `Write a brief Jira Epic description (2-3 paragraphs) for implementing this UI component:
 
 ${summary}
 
 Figma: ${figmaUrl}
 
 Cover: what it is, key functionality, main elements to implement. Keep it concise and professional.`,
-      },
-    ],
-    max_tokens: 500,
+    maxTokens: 500,
   });
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     return `Implementation of ${componentName} component. Figma: ${figmaUrl}`;
   }
@@ -406,5 +760,6 @@ export function convertToFSDData(
     contentAuthorRequirements: aiContent.contentAuthorRequirements,
     designNotes: aiContent.designNotes,
     fieldRequirements: aiContent.fieldRequirements,
+    analysisCoverage: aiContent.coverage,
   };
 }
@@ -0,0 +1,289 @@
+// CMS profiles - field vocabulary and conventions the AI prompt, validation, FSD and Jira text follow.
+// Kept free of server-only imports so the form can list the profiles.
+import type { FieldRequirement } from "./confluence";
+
+export type CmsId = "sitecore" | "aem" | "contentful" | "optimizely";
+
+// The CMS's name for each kind of field the design can need
+export interface CmsFieldKinds {
+  singleLine: string;
+  multiLine: string;
+  richText: string;
+  link: string;
+  image: string;
+  boolean: string;
+  select: string; // one of a fixed list of options
+  reference: string; // one shared item
+  list: string; // ordered child items
+}
+
+export interface CmsProfile {
+  id: CmsId;
+  label: string;
+  architect: string; // role the prompt casts the model in
+  fieldTypes: readonly string[]; // the only fieldType values the AI may return
+  kinds: CmsFieldKinds;
+  terms: {
+    template: string; // e.g. "template", "content type"
+    datasource: string; // where an instance's content lives
+    renderingParameters: string; // FSD heading for variant/toggle settings
+  };
+  fieldTypeRules: string[]; // prompt rules mapping design elements to field types
+  nestingExamples: string[]; // prompt examples of parent/child structures
+  exampleFields: FieldRequirement[]; // example fieldRequirements in the expected output
+  backendTasks: string[]; // lines of the BED sub-task description
+}
+
+export const DEFAULT_CMS: CmsId = "sitecore";
+
+export const CMS_PROFILES: Record<CmsId, CmsProfile> = {
+  sitecore: {
+    id: "sitecore",
+    label: "Sitecore",
+    architect: "senior Sitecore architect",
+    fieldTypes: [
+      "Single-Line Text",
+      "Multi-Line Text",
+      "Rich Text",
+      "General Link",
+      "Image",
+      "File",
+      "Checkbox",
+      "Date",
+      "Datetime",
+      "Integer",
+      "Number",
+      "Droplist",
+      "Droplink",
+      "Droptree",
+      "Multilist",
+      "Multilist with Search",
+      "Treelist",
+      "TreelistEx",
+      "Name Value List",
+    ],
+    kinds: {
+      singleLine: "Single-Line Text",
+      multiLine: "Multi-Line Text",
+      richText: "Rich Text",
+      link: "General Link",
+      image: "Image",
+      boolean: "Checkbox",
+      select: "Droplist",
+      reference: "Droplink",
+      list: "Multilist",
+    },
+    terms: { template: "template", datasource: "datasource", renderingParameters: "Rendering Parameters" },
+    fieldTypeRules: [
+      `Link (text + URL together) = "General Link" (ONE field, NOT separate text+url)`,
+      `Logo = "Image" (with separate "General Link" only if clickable)`,
+      `List of items/links = "Multilist" pointing to child template`,
+      `Dropdown selection = "Droptree"`,
+    ],
+    nestingExamples: [
+      "Footer Template has: Logo (Image), Logo Link (General Link), Footer Columns (Multilist → Footer Column)",
+      "Footer Column Template has: Column Title (Single-Line Text), Column Links (Multilist → Footer Link)",
+      "Footer Link Template has: Link (General Link) - this ONE field has both text and URL",
+      "Header Template has: Logo (Image), Navigation Items (Multilist → Nav Item)",
+      "Nav Item Template has: Link (General Link), Has Dropdown (Checkbox), Dropdown Items (Multilist → Nav Item)",
+    ],
+    exampleFields: [
+      { element: "Logo", fieldType: "Image", required: true, dataSource: "Content Managed", display: "Top left aligned", notes: "Recommended size: 150x50px" },
+      { element: "Logo Link", fieldType: "General Link", required: false, dataSource: "Content Managed", display: "Wraps logo image", notes: "Links to homepage" },
+      { element: "Column Title", fieldType: "Single-Line Text", required: true, dataSource: "Content Managed", display: "Bold heading above links", notes: "Max 50 characters" },
+      { element: "Column Links", fieldType: "Multilist", required: true, dataSource: "Child Link Items", display: "Vertical list under title", notes: "Each link item has General Link field" },
+    ],
+    backendTasks: [
+      "Create Sitecore templates, fields, and data sources.",
+      "Implement content resolver and API integration.",
+    ],
+  },
+  aem: {
+    id: "aem",
+    label: "AEM",
+    architect: "senior Adobe Experience Manager (AEM) architect",
+    fieldTypes: [
+      "Textfield",
+      "Textarea",
+      "Richtext",
+      "Pathfield",
+      "Fileupload",
+      "Checkbox",
+      "Select",
+      "Radiogroup",
+      "Multifield",
+      "Datepicker",
+      "Numberfield",
+      "Tagfield",
+      "Colorfield",
+      "Content Fragment Reference",
+      "Experience Fragment Reference",
+    ],
+    kinds: {
+      singleLine: "Textfield",
+      multiLine: "Textarea",
+      richText: "Richtext",
+      link: "Pathfield",
+      image: "Fileupload",
+      boolean: "Checkbox",
+      select: "Select",
+      reference: "Content Fragment Reference",
+      list: "Multifield",
+    },
+    terms: { template: "component dialog", datasource: "component dialog", renderingParameters: "Component Policies / Style System" },
+    fieldTypeRules: [
+      `Link = "Pathfield" for the target (internal page or external URL) plus a "Textfield" for the link text`,
+      `Image/Logo = "Fileupload" (DAM asset) - add a "Textfield" for alt text unless decorative`,
+      `List of items/links = "Multifield" with composite items - list the item fields in notes`,
+      `Dropdown selection = "Select"`,
+      `Content reused across pages (global footer/header) = "Experience Fragment Reference"`,
+    ],
+    nestingExamples: [
+      "Footer component dialog has: Logo (Fileupload), Logo Alt Text (Textfield), Logo Link (Pathfield), Columns (Multifield → Column)",
+      "Column multifield item has: Column Title (Textfield), Links (Multifield → Link)",
+      "Link multifield item has: Link Text (Textfield), Link Target (Pathfield), Open In New Tab (Checkbox)",
+      "Header component dialog has: Logo (Fileupload), Navigation Root (Pathfield) - items come from the page tree",
+    ],
+    exampleFields: [
+      { element: "Logo", fieldType: "Fileupload", required: true, dataSource: "Component dialog (DAM asset)", display: "Top left aligned", notes: "Recommended size: 150x50px" },
+      { element: "Logo Link", fieldType: "Pathfield", required: false, dataSource: "Component dialog", display: "Wraps logo image", notes: "Links to homepage" },
+      { element: "Column Title", fieldType: "Textfield", required: true, dataSource: "Component dialog", display: "Bold heading above links", notes: "Max 50 characters" },
+      { element: "Column Links", fieldType: "Multifield", required: true, dataSource: "Component dialog", display: "Vertical list under title", notes: "Each item: Link Text (Textfield), Link Target (Pathfield)" },
+    ],
+    backendTasks: [
+      "Create the AEM component (dialog, HTL, Sling Model) and its Multifield item structures.",
+      "Configure component policies/Style System options and the JSON exporter for headless delivery.",
+    ],
+  },
+  contentful: {
+    id: "contentful",
+    label: "Contentful",
+    architect: "senior Contentful content architect",
+    fieldTypes: [
+      "Short text",
+      "Short text, list",
+      "Long text",
+      "Rich text",
+      "Integer",
+      "Decimal",
+      "Date and time",
+      "Boolean",
+      "Media",
+      "Media, many",
+      "Reference",
+      "References, many",
+      "JSON object",
+      "Location",
+    ],
+    kinds: {
+      singleLine: "Short text",
+      multiLine: "Long text",
+      richText: "Rich text",
+      link: "Reference",
+      image: "Media",
+      boolean: "Boolean",
+      select: "Short text",
+      reference: "Reference",
+      list: "References, many",
+    },
+    terms: { template: "content type", datasource: "entry", renderingParameters: "Presentation Settings" },
+    fieldTypeRules: [
+      `Link = "Reference" to a shared "Link" content type (label + URL or page reference) - Contentful has no link field`,
+      `Image/Logo = "Media" (asset) - alt text comes from the asset description`,
+      `List of items/links = "References, many" with an accepted content type in notes`,
+      `Dropdown selection = "Short text" with predefined values (list them in notes)`,
+    ],
+    nestingExamples: [
+      "Footer content type has: Logo (Media), Logo Link (Reference → Link), Columns (References, many → Footer Column)",
+      "Footer Column content type has: Title (Short text), Links (References, many → Link)",
+      "Link content type has: Label (Short text), URL (Short text) or Page (Reference → Page)",
+      "Header content type has: Logo (Media), Navigation Items (References, many → Nav Item)",
+    ],
+    exampleFields: [
+      { element: "Logo", fieldType: "Media", required: true, dataSource: "Footer entry", display: "Top left aligned", notes: "Recommended size: 150x50px" },
+      { element: "Logo Link", fieldType: "Reference", required: false, dataSource: "Link entry", display: "Wraps logo image", notes: "Accepts the Link content type" },
+      { element: "Column Title", fieldType: "Short text", required: true, dataSource: "Footer Column entry", display: "Bold heading above links", notes: "Max 50 characters (validation)" },
+      { element: "Column Links", fieldType: "References, many", required: true, dataSource: "Link entries", display: "Vertical list under title", notes: "Accepts the Link content type" },
+    ],
+    backendTasks: [
+      "Create the Contentful content types, field validations and reference rules (migration script).",
+      "Implement the GraphQL/REST query and mapping into the frontend component props.",
+    ],
+  },
+  optimizely: {
+    id: "optimizely",
+    label: "Optimizely",
+    architect: "senior Optimizely CMS architect",
+    fieldTypes: [
+      "String",
+      "String (TextArea)",
+      "XhtmlString",
+      "Url",
+      "LinkItemCollection",
+      "ContentReference",
+      "ContentReference (Image)",
+      "ContentArea",
+      "Boolean",
+      "Int",
+      "Double",
+      "DateTime",
+      "SelectOne",
+      "SelectMany",
+      "IList<Block>",
+    ],
+    kinds: {
+      singleLine: "String",
+      multiLine: "String (TextArea)",
+      richText: "XhtmlString",
+      link: "Url",
+      image: "ContentReference (Image)",
+      boolean: "Boolean",
+      select: "SelectOne",
+      reference: "ContentReference",
+      list: "ContentArea",
+    },
+    terms: { template: "block type", datasource: "block", renderingParameters: "Block Settings" },
+    fieldTypeRules: [
+      `Single link = "Url" plus a "String" for the link text; a list of plain links = "LinkItemCollection"`,
+      `Image/Logo = "ContentReference (Image)" with [UIHint(UIHint.Image)]`,
+      `List of items with their own fields = "ContentArea" restricted to a child block type (or "IList<Block>" for inline items)`,
+      `Dropdown selection = "SelectOne" with a selection factory`,
+    ],
+    nestingExamples: [
+      "Footer Block has: Logo (ContentReference (Image)), Logo Link (Url), Columns (ContentArea → Footer Column Block)",
+      "Footer Column Block has: Title (String), Links (LinkItemCollection)",
+      "Header Block has: Logo (ContentReference (Image)), Navigation Items (ContentArea → Nav Item Block)",
+      "Nav Item Block has: Link (Url), Link Text (String), Children (LinkItemCollection)",
+    ],
+    exampleFields: [
+      { element: "Logo", fieldType: "ContentReference (Image)", required: true, dataSource: "Footer Block", display: "Top left aligned", notes: "Recommended size: 150x50px" },
+      { element: "Logo Link", fieldType: "Url", required: false, dataSource: "Footer Block", display: "Wraps logo image", notes: "Links to homepage" },
+      { element: "Column Title", fieldType: "String", required: true, dataSource: "Footer Column Block", display: "Bold heading above links", notes: "Max 50 characters" },
+      { element: "Column Links", fieldType: "LinkItemCollection", required: true, dataSource: "Footer Column Block", display: "Vertical list under title", notes: "Each item has text and URL" },
+    ],
+    backendTasks: [
+      "Create the Optimizely block types, properties, allowed types and editor hints.",
+      "Implement the block controller/view component (or Content Delivery API model) for the frontend.",
+    ],
+  },
+};
+
+export function isCmsId(value: unknown): value is CmsId {
+  // Own keys only - "toString" or "constructor" must not pass as a CMS
+  return typeof value === "string" && Object.hasOwn(CMS_PROFILES, value);
+}
+
+export function getCmsProfile(id?: CmsId): CmsProfile {
+  return CMS_PROFILES[id || DEFAULT_CMS];
+}
+
+// Matching ignores case, spaces and hyphens - "single line text" is accepted as "Single-Line Text"
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[\s-]+/g, "");
+}
+
+// The profile's spelling of a field type, or null when the CMS has no such type
+export function toCmsFieldType(profile: CmsProfile, value: string): string | null {
+  const key = normalizeKey(value);
+  return profile.fieldTypes.find((type) => normalizeKey(type) === key) || null;
+}
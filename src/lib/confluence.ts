@@ -1,3 +1,11 @@
+import { ComponentProperty, DesignerComment, LayoutSpec, SharedComponent, isBreakpointAxis } from "./figma";
+import { DesignToken, toStyleDictionary } from "./tokens";
+import { AssetManifestEntry } from "./assets";
+import { AccessibilityFinding } from "./accessibility";
+import { CmsId, CmsProfile, getCmsProfile } from "./cms";
+import { ComponentDiff, describeChange, groupChanges } from "./diff";
+import { httpJson } from "./http";
+
 const ATLASSIAN_BASE_URL = "https://horizontal.atlassian.net";
 
 interface ConfluenceAuth {
@@ -42,6 +50,59 @@ export interface SitecoreComponentStructure {
   renderingParameters?: SitecoreField[];
 }
 
+// Child template for a shared Figma component - "Buttons/Primary Button" -> "Primary Button"
+export function toSharedTemplateName(componentName: string): string {
+  return componentName.split("/").pop()!.trim() || componentName;
+}
+
+// Variant axes for interaction states - handled in CSS, not by authors
+const STATE_AXIS_PATTERN = /^(state|status|interaction)s?$/i;
+
+// Map Figma variant axes, boolean and instance-swap properties to rendering parameters (or the CMS's equivalent).
+// Text properties are content, so they belong on the datasource instead.
+export function toRenderingParameters(properties: ComponentProperty[], cms: CmsProfile = getCmsProfile()): SitecoreField[] {
+  const parameters: SitecoreField[] = [];
+
+  for (const property of properties) {
+    if (property.type === "text") continue;
+    if (property.type === "variant" && (isBreakpointAxis(property.name) || STATE_AXIS_PATTERN.test(property.name))) continue;
+
+    switch (property.type) {
+      case "variant":
+        parameters.push({
+          fieldName: property.name,
+          fieldType: cms.kinds.select,
+          required: true,
+          source: property.options?.join(" | "),
+          defaultValue: property.defaultValue,
+          helpText: `Figma variant axis "${property.name}"`,
+        });
+        break;
+      case "boolean":
+        parameters.push({
+          fieldName: property.name,
+          fieldType: cms.kinds.boolean,
+          required: false,
+          defaultValue: property.defaultValue === "true" ? "Checked" : "Unchecked",
+          helpText: `Toggles "${property.name}" in the design`,
+        });
+        break;
+      case "instance-swap":
+        parameters.push({
+          fieldName: property.name,
+          fieldType: cms.kinds.reference,
+          required: false,
+          source: "Shared option items (e.g. icon library)",
+          defaultValue: property.defaultValue,
+          helpText: `Figma instance swap "${property.name}"`,
+        });
+        break;
+    }
+  }
+
+  return parameters;
+}
+
 export interface FSDData {
   componentName: string;
   figmaUrl: string;
@@ -57,6 +118,23 @@ export interface FSDData {
     tablet?: string;
     mobile?: string;
   };
+  layoutSpecs?: LayoutSpec[];
+  designTokens?: DesignToken[];
+  renderingParameters?: SitecoreField[];
+  sharedComponents?: SharedComponent[];
+  assets?: AssetManifestEntry[];
+  designerComments?: DesignerComment[];
+  accessibilityFindings?: AccessibilityFinding[];
+  cms?: CmsId; // field types and terms follow this CMS - defaults to Sitecore
+  analysisCoverage?: AnalysisCoverage;
+}
+
+// How much of the Figma tree the analysis saw
+export interface AnalysisCoverage {
+  sections: string[]; // analysed separately and merged - empty for a single pass
+  totalElements: number;
+  analyzedElements: number;
+  omitted: string[]; // what was still left out, empty when the whole tree was analysed
 }
 
 export interface FieldRequirement {
@@ -77,14 +155,25 @@ function escapeHtml(text: string): string {
     .replace(/"/g, "&quot;");
 }
 
+// CDATA sections cannot contain "]]>" - split it across two sections
+function escapeCdata(text: string): string {
+  return text.replace(/\]\]>/g, "]]]]><![CDATA[>");
+}
+
 function extractJiraKey(url: string): string {
   if (!url) return "";
   const match = url.match(/browse\/([A-Z]+-\d+)/);
   return match ? match[1] : url;
 }
 
+function describeCoverage(coverage: AnalysisCoverage): string {
+  const passes = coverage.sections.length > 0 ? `${coverage.sections.length} sections, merged` : "Single pass";
+  return `${passes} - ${coverage.analyzedElements} of ${coverage.totalElements} elements analysed`;
+}
+
 function generateFSDContent(data: FSDData): string {
   const jiraKey = extractJiraKey(data.jiraEpicUrl);
+  const cms = getCmsProfile(data.cms);
 
   // Header section - Document Status, Tech Review, Jira, Figma
   const headerSection = `<table data-layout="default">
@@ -102,12 +191,29 @@ ${data.jiraEpicUrl ? `<tr>
 <td><p><a href="${escapeHtml(data.jiraEpicUrl)}">${escapeHtml(jiraKey)}: ${escapeHtml(data.componentName)}</a></p></td>
 </tr>` : ""}
 <tr>
+<td><p><strong>Target CMS</strong></p></td>
+<td><p>${escapeHtml(cms.label)}</p></td>
+</tr>
+${data.analysisCoverage ? `<tr>
+<td><p><strong>Design Analysis</strong></p></td>
+<td><p>${describeCoverage(data.analysisCoverage)}</p></td>
+</tr>` : ""}
+<tr>
 <td><p><strong>Figma Reference</strong></p></td>
-<td><p><a href="${escapeHtml(data.figmaUrl)}">Figma</a></p></td>
+<td><p>${data.figmaUrl ? `<a href="${escapeHtml(data.figmaUrl)}">Figma</a>` : "Offline Figma export"}</p></td>
 </tr>
 </tbody>
 </table>`;
 
+  // Figma comments quoted as written - replies follow the comment they answer
+  const designerCommentsSection = data.designerComments && data.designerComments.length > 0
+    ? `<p><strong><u>Designer comments:</u></strong></p>
+${data.designerComments.map((comment) => `<blockquote>
+<p>${escapeHtml(comment.message).replace(/\n/g, "<br/>")}</p>
+<p><em>- ${comment.isReply ? "Reply from " : ""}${escapeHtml(comment.author)}, ${escapeHtml(comment.createdAt.slice(0, 10))}${comment.anchor ? ` on ${escapeHtml(comment.anchor)}` : ""}${comment.resolved && !comment.isReply ? " (resolved)" : ""}</em></p>
+</blockquote>`).join("\n")}`
+    : "";
+
   // Description and Design Notes - Two column layout
   const descriptionSection = `<table data-layout="default">
 <tbody>
@@ -124,6 +230,7 @@ ${data.jiraEpicUrl ? `<tr>
 <ul>
 ${data.designNotes.map(note => `<li><p>${escapeHtml(note)}</p></li>`).join("\n")}
 </ul>
+${designerCommentsSection}
 </td>
 </tr>
 </tbody>
@@ -156,7 +263,7 @@ ${contentAuthorReqs}
 <tr>
 <th><p>Component Distribution</p></th>
 <th><p>Element</p></th>
-<th><p>Field Type</p></th>
+<th><p>${escapeHtml(cms.label)} Field Type</p></th>
 <th><p>Field Note</p></th>
 <th><p>Data Source</p></th>
 <th><p>Display</p></th>
@@ -177,10 +284,187 @@ ${contentAuthorReqs}
 </tr>`)
     .join("\n");
 
+  // Parts of the design the analysis never saw - their fields must be added by hand
+  const omissionNote = data.analysisCoverage && data.analysisCoverage.omitted.length > 0
+    ? `<ac:structured-macro ac:name="warning" ac:schema-version="1">
+<ac:rich-text-body>
+<p>Parts of the design were too large to analyse and may be missing from this table:</p>
+<ul>
+${data.analysisCoverage.omitted.map((item) => `<li><p>${escapeHtml(item)}</p></li>`).join("\n")}
+</ul>
+</ac:rich-text-body>
+</ac:structured-macro>`
+    : "";
+
   const fieldTableSection = `${fieldTableHeader}
 ${fieldRows}
 </tbody>
-</table>`;
+</table>
+${omissionNote}`;
+
+  // Rendering parameters - variants and toggles from Figma component properties
+  const renderingParametersSection = data.renderingParameters && data.renderingParameters.length > 0
+    ? `<h2>${escapeHtml(cms.terms.renderingParameters)}:</h2>
+<table data-layout="full-width">
+<thead>
+<tr>
+<th><p>Parameter</p></th>
+<th><p>Field Type</p></th>
+<th><p>Field Note</p></th>
+<th><p>Options / Source</p></th>
+<th><p>Default</p></th>
+<th><p>Notes</p></th>
+</tr>
+</thead>
+<tbody>
+${data.renderingParameters.map((param) => `<tr>
+<td><p>${escapeHtml(param.fieldName)}</p></td>
+<td><p>${escapeHtml(param.fieldType)}</p></td>
+<td><p>${param.required ? "Required" : "Optional"}</p></td>
+<td><p>${escapeHtml(param.source || "")}</p></td>
+<td><p>${escapeHtml(param.defaultValue || "")}</p></td>
+<td><p>${escapeHtml(param.helpText || "")}</p></td>
+</tr>`).join("\n")}
+</tbody>
+</table>`
+    : "";
+
+  // Layout spec table - auto-layout, spacing, constraints from Figma
+  const layoutSpecSection = data.layoutSpecs && data.layoutSpecs.length > 0
+    ? `<h2>Layout Spec:</h2>
+<table data-layout="full-width">
+<thead>
+<tr>
+<th><p>Element</p></th>
+<th><p>Auto-layout / Spacing</p></th>
+<th><p>Constraints</p></th>
+<th><p>Corner Radius</p></th>
+</tr>
+</thead>
+<tbody>
+${data.layoutSpecs.map((spec) => `<tr>
+<td><p>${escapeHtml(spec.element)}</p></td>
+<td><p>${escapeHtml(spec.layout)}</p></td>
+<td><p>${escapeHtml(spec.constraints)}</p></td>
+<td><p>${escapeHtml(spec.cornerRadius)}</p></td>
+</tr>`).join("\n")}
+</tbody>
+</table>`
+    : "";
+
+  // Design tokens table + Style Dictionary export for FED
+  const designTokensSection = data.designTokens && data.designTokens.length > 0
+    ? `<h2>Design Tokens:</h2>
+<table data-layout="full-width">
+<thead>
+<tr>
+<th><p>Token</p></th>
+<th><p>Type</p></th>
+<th><p>Value</p></th>
+<th><p>Used By</p></th>
+</tr>
+</thead>
+<tbody>
+${data.designTokens.map((token) => `<tr>
+<td><p><code>${escapeHtml(token.name)}</code></p></td>
+<td><p>${escapeHtml(token.type)}</p></td>
+<td><p>${escapeHtml(token.value)}</p></td>
+<td><p>${escapeHtml(token.usedBy.join(", "))}</p></td>
+</tr>`).join("\n")}
+</tbody>
+</table>
+<ac:structured-macro ac:name="expand" ac:schema-version="1">
+<ac:parameter ac:name="title">Tokens JSON (Style Dictionary)</ac:parameter>
+<ac:rich-text-body>
+<ac:structured-macro ac:name="code" ac:schema-version="1">
+<ac:parameter ac:name="language">json</ac:parameter>
+<ac:plain-text-body><![CDATA[${escapeCdata(JSON.stringify(toStyleDictionary(data.designTokens), null, 2))}]]></ac:plain-text-body>
+</ac:structured-macro>
+</ac:rich-text-body>
+</ac:structured-macro>`
+    : "";
+
+  // Shared components - one child template/datasource each, reused wherever the component appears
+  const sharedComponentsSection = data.sharedComponents && data.sharedComponents.length > 0
+    ? `<h2>Shared Components:</h2>
+<p>Each shared component maps to a single child ${escapeHtml(cms.terms.template)} and ${escapeHtml(cms.terms.datasource)}. Reuse the existing ${escapeHtml(cms.terms.template)} if another FSD already defines it (match on the library key).</p>
+<table data-layout="full-width">
+<thead>
+<tr>
+<th><p>Figma Component</p></th>
+<th><p>Child ${escapeHtml(cms.terms.template.replace(/^\w/, (c) => c.toUpperCase()))}</p></th>
+<th><p>Instances</p></th>
+<th><p>Used In</p></th>
+<th><p>Variants</p></th>
+<th><p>Library Key</p></th>
+</tr>
+</thead>
+<tbody>
+${data.sharedComponents.map((shared) => `<tr>
+<td><p>${escapeHtml(shared.name)}</p></td>
+<td><p>${escapeHtml(toSharedTemplateName(shared.name))}</p></td>
+<td><p>${shared.instanceCount}</p></td>
+<td><p>${escapeHtml(shared.usedIn.join(", "))}</p></td>
+<td><p>${escapeHtml(shared.variants.join("; ") || "-")}</p></td>
+<td><p>${shared.key ? `<code>${escapeHtml(shared.key)}</code>` : "-"}</p></td>
+</tr>`).join("\n")}
+</tbody>
+</table>`
+    : "";
+
+  // Logos, icons and images authors need to upload - links are Figma exports and expire
+  const assetsSection = data.assets && data.assets.length > 0
+    ? `<h2>Assets:</h2>
+<table data-layout="full-width">
+<thead>
+<tr>
+<th><p>File</p></th>
+<th><p>Layer</p></th>
+<th><p>Type</p></th>
+<th><p>Dimensions</p></th>
+<th><p>Recommended Renditions</p></th>
+</tr>
+</thead>
+<tbody>
+${data.assets.map((asset) => `<tr>
+<td><p>${asset.url ? `<a href="${escapeHtml(asset.url)}">${escapeHtml(asset.fileName)}</a>` : escapeHtml(asset.fileName)}</p></td>
+<td><p>${escapeHtml(asset.name)}</p></td>
+<td><p>${escapeHtml(asset.kind)} (${asset.format.toUpperCase()})</p></td>
+<td><p>${asset.width}x${asset.height}px</p></td>
+<td><p>${asset.renditions.map(escapeHtml).join("<br/>")}</p></td>
+</tr>`).join("\n")}
+</tbody>
+</table>
+<p><em>Download links are generated by Figma and expire - re-run the generator to refresh them.</em></p>`
+    : "";
+
+  // Automated accessibility audit - passes are listed too so QA can see what was checked
+  const accessibilitySection = data.accessibilityFindings
+    ? `<h2>Accessibility:</h2>
+${data.accessibilityFindings.length > 0
+    ? `<table data-layout="full-width">
+<thead>
+<tr>
+<th><p>Check</p></th>
+<th><p>Element</p></th>
+<th><p>Result</p></th>
+<th><p>Detail</p></th>
+<th><p>WCAG</p></th>
+</tr>
+</thead>
+<tbody>
+${data.accessibilityFindings.map((finding) => `<tr>
+<td><p>${escapeHtml(finding.check)}</p></td>
+<td><p>${escapeHtml(finding.element)}</p></td>
+<td><p>${finding.severity === "fail" ? "<strong>Fail</strong>" : "Check manually"}</p></td>
+<td><p>${escapeHtml(finding.detail)}</p></td>
+<td><p>${escapeHtml(finding.wcag || "Best practice")}</p></td>
+</tr>`).join("\n")}
+</tbody>
+</table>`
+    : "<p>No contrast, font size, touch target or icon label issues found in the design.</p>"}
+<p><em>Automated checks against the Figma design - keyboard, focus order and screen reader behaviour still need manual testing.</em></p>`
+    : "";
 
   // Design references section - AT THE END with screenshots
   const designReferencesSection = `<h2>Design references:</h2>
@@ -215,6 +499,18 @@ ${acceptanceCriteriaSection}
 
 ${fieldTableSection}
 
+${renderingParametersSection}
+
+${sharedComponentsSection}
+
+${accessibilitySection}
+
+${layoutSpecSection}
+
+${designTokensSection}
+
+${assetsSection}
+
 ${designReferencesSection}`;
 }
 
@@ -241,7 +537,8 @@ export async function createConfluencePage(
     body.ancestors = [{ id: parentId }];
   }
 
-  const response = await fetch(`${ATLASSIAN_BASE_URL}/wiki/rest/api/content`, {
+  return httpJson<CreatePageResponse>(`${ATLASSIAN_BASE_URL}/wiki/rest/api/content`, {
+    service: "Confluence",
     method: "POST",
     headers: {
       Authorization: getAuthHeader(auth),
@@ -250,13 +547,79 @@ export async function createConfluencePage(
     },
     body: JSON.stringify(body),
   });
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Confluence API error: ${response.status} - ${error}`);
-  }
+interface ConfluencePage {
+  id: string;
+  title: string;
+  version: { number: number };
+  body: { storage: { value: string } };
+  _links: { webui: string };
+}
+
+// Change report section appended to an existing FSD
+export function generateChangeReportSection(diff: ComponentDiff, date: string): string {
+  const groups = groupChanges(diff);
+  const body = groups.length > 0
+    ? groups.map((group) => `<h3>${escapeHtml(group.heading)} (${group.changes.length})</h3>
+<ul>
+${group.changes.map((change) => `<li><p>${escapeHtml(describeChange(change))}</p></li>`).join("\n")}
+</ul>`).join("\n")
+    : "<p>No changes to elements, text, colors, dimensions or variants.</p>";
+
+  return `<h2>Design Changes (${escapeHtml(date)}):</h2>
+<p>Figma version ${escapeHtml(diff.fromVersion)} compared with ${escapeHtml(diff.toVersion)}.</p>
+${body}`;
+}
+
+// Jira section appended to an FSD created before its Epic + Stories were reviewed and created
+export function generateJiraStoriesSection(
+  epic: { key: string; url: string; summary: string },
+  stories: { key: string; url: string; summary: string }[]
+): string {
+  return `<h2>Jira Stories:</h2>
+<p>Epic: <a href="${escapeHtml(epic.url)}">${escapeHtml(epic.key)}: ${escapeHtml(epic.summary)}</a></p>
+<ul>
+${stories.map((story) => `<li><p><a href="${escapeHtml(story.url)}">${escapeHtml(story.key)}: ${escapeHtml(story.summary)}</a></p></li>`).join("\n")}
+</ul>`;
+}
+
+// Accept a bare page id or a .../pages/123456/... URL
+export function toConfluencePageId(value: string): string {
+  const match = value.match(/\/pages\/(\d+)/);
+  return match ? match[1] : value.trim();
+}
+
+// Append storage-format content to a page - Confluence needs the next version number on update
+export async function appendToConfluencePage(auth: ConfluenceAuth, pageId: string, content: string): Promise<string> {
+  const headers = {
+    Authorization: getAuthHeader(auth),
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+  const page = await httpJson<ConfluencePage>(
+    `${ATLASSIAN_BASE_URL}/wiki/rest/api/content/${encodeURIComponent(pageId)}?expand=body.storage,version`,
+    { service: "Confluence", headers }
+  );
+
+  const updated = await httpJson<ConfluencePage>(`${ATLASSIAN_BASE_URL}/wiki/rest/api/content/${encodeURIComponent(pageId)}`, {
+    service: "Confluence",
+    method: "PUT",
+    headers,
+    body: JSON.stringify({
+      type: "page",
+      title: page.title,
+      version: { number: page.version.number + 1 },
+      body: {
+        storage: {
+          value: `${page.body.storage.value}\n${content}`,
+          representation: "storage",
+        },
+      },
+    }),
+  });
 
-  return response.json();
+  return `${ATLASSIAN_BASE_URL}/wiki${updated._links.webui}`;
 }
 
 export async function createFSDPage(
@@ -277,13 +640,16 @@ export function generateDefaultFSDData(
   componentName: string,
   figmaUrl: string,
   jiraEpicUrl: string,
-  jiraStoryUrls: string[]
+  jiraStoryUrls: string[],
+  cmsId?: CmsId
 ): FSDData {
+  const cms = getCmsProfile(cmsId);
   return {
     componentName,
     figmaUrl,
     jiraEpicUrl,
     jiraStoryUrls,
+    cms: cms.id,
     description: `Component to include main sections as identified in design.`,
     functionalRequirements: [
       `I can view the ${componentName} component on all site pages`,
@@ -306,7 +672,7 @@ export function generateDefaultFSDData(
     fieldRequirements: [
       {
         element: "Logo",
-        fieldType: "Browse Media",
+        fieldType: cms.kinds.image,
         required: false,
         dataSource: "Content Managed",
         display: "Aligned as per design reference",
@@ -314,7 +680,7 @@ export function generateDefaultFSDData(
       },
       {
         element: "Logo Link",
-        fieldType: "Link field",
+        fieldType: cms.kinds.link,
         required: false,
         dataSource: "Content Managed",
         display: "",
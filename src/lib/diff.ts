@@ -0,0 +1,205 @@
+import { ExtractedComponent, ExtractedElement } from "./figma";
+
+export type ChangeKind = "added" | "removed" | "text" | "colors" | "dimensions" | "variants";
+
+export interface ElementChange {
+  kind: ChangeKind;
+  element: string;
+  path: string; // e.g. "Footer / Column 1 / Title"
+  before?: string;
+  after?: string;
+}
+
+export interface ComponentDiff {
+  componentName: string;
+  fromVersion: string; // version label or id
+  toVersion: string;
+  changes: ElementChange[];
+}
+
+const MAX_CHANGES = 200;
+
+const CHANGE_HEADINGS: Record<ChangeKind, string> = {
+  added: "Added elements",
+  removed: "Removed elements",
+  text: "Changed text",
+  colors: "Changed colors",
+  dimensions: "Changed dimensions",
+  variants: "Changed variants",
+};
+
+interface IndexedElement {
+  element: ExtractedElement;
+  path: string;
+  overrides?: Map<string, InstanceOverride>;
+}
+
+// A text or property value of one collapsed instance - its layers are only indexed once, on the shared component
+interface InstanceOverride {
+  kind: "text" | "variants";
+  element: string;
+  path: string;
+  value: string;
+}
+
+function indexOverrides(el: ExtractedElement, path: string): Map<string, InstanceOverride> | undefined {
+  if (!el.componentRef?.texts && !el.componentRef?.properties) return undefined;
+  const overrides = new Map<string, InstanceOverride>();
+  // Layer names repeat inside an instance (e.g. several "Label" layers) - number them in order
+  const seen = new Map<string, number>();
+  for (const { layer, text } of el.componentRef.texts || []) {
+    const occurrence = (seen.get(layer) || 0) + 1;
+    seen.set(layer, occurrence);
+    overrides.set(`text:${layer}:${occurrence}`, { kind: "text", element: layer, path: `${path} / ${layer}`, value: text });
+  }
+  for (const [name, value] of Object.entries(el.componentRef.properties || {})) {
+    overrides.set(`property:${name}`, { kind: "variants", element: name, path, value: String(value) });
+  }
+  return overrides;
+}
+
+// Node ids are stable across versions of a file; the name path is a fallback for exports without ids
+function indexElements(component: ExtractedComponent): Map<string, IndexedElement> {
+  const index = new Map<string, IndexedElement>();
+
+  function traverse(el: ExtractedElement, parentPath: string): void {
+    const path = `${parentPath} / ${el.name}`;
+    index.set(el.nodeId || path, { element: el, path, overrides: indexOverrides(el, path) });
+    el.children?.forEach((child) => traverse(child, path));
+  }
+
+  component.children.forEach((child) => traverse(child, component.name));
+  component.sharedComponents?.forEach((shared) =>
+    shared.children.forEach((child) => traverse(child, `${shared.name} (shared)`))
+  );
+  return index;
+}
+
+function formatDimensions(el: ExtractedElement): string | undefined {
+  return el.dimensions ? `${el.dimensions.width}x${el.dimensions.height}` : undefined;
+}
+
+export function diffComponents(
+  before: ExtractedComponent,
+  after: ExtractedComponent,
+  fromVersion: string,
+  toVersion: string
+): ComponentDiff {
+  const changes: ElementChange[] = [];
+  const add = (change: ElementChange) => {
+    if (changes.length < MAX_CHANGES) changes.push(change);
+  };
+
+  const beforeDims = `${before.dimensions.width}x${before.dimensions.height}`;
+  const afterDims = `${after.dimensions.width}x${after.dimensions.height}`;
+  if (beforeDims !== afterDims) {
+    add({ kind: "dimensions", element: after.name, path: after.name, before: beforeDims, after: afterDims });
+  }
+
+  // Variant axes and their options
+  const beforeProps = new Map((before.properties || []).map((p) => [p.name, p]));
+  const afterProps = new Map((after.properties || []).map((p) => [p.name, p]));
+  for (const [name, prop] of afterProps) {
+    const previous = beforeProps.get(name);
+    const beforeOptions = previous?.options?.join(", ") || (previous ? previous.type : undefined);
+    const afterOptions = prop.options?.join(", ") || prop.type;
+    if (beforeOptions !== afterOptions) {
+      add({ kind: "variants", element: name, path: after.name, before: beforeOptions, after: afterOptions });
+    }
+  }
+  for (const [name, prop] of beforeProps) {
+    if (!afterProps.has(name)) {
+      add({ kind: "variants", element: name, path: after.name, before: prop.options?.join(", ") || prop.type });
+    }
+  }
+
+  const beforeIndex = indexElements(before);
+  const afterIndex = indexElements(after);
+
+  for (const [key, { element, path }] of beforeIndex) {
+    if (!afterIndex.has(key)) {
+      add({ kind: "removed", element: element.name, path });
+    }
+  }
+
+  for (const [key, { element, path, overrides }] of afterIndex) {
+    const previous = beforeIndex.get(key);
+    if (!previous) {
+      add({ kind: "added", element: element.name, path });
+      continue;
+    }
+
+    const old = previous.element;
+    if ((old.text || "") !== (element.text || "")) {
+      add({ kind: "text", element: element.name, path, before: old.text, after: element.text });
+    }
+
+    const oldColors = (old.colors || []).join(", ");
+    const newColors = (element.colors || []).join(", ");
+    if (oldColors !== newColors) {
+      add({ kind: "colors", element: element.name, path, before: oldColors || "none", after: newColors || "none" });
+    }
+
+    if (formatDimensions(old) !== formatDimensions(element)) {
+      add({ kind: "dimensions", element: element.name, path, before: formatDimensions(old), after: formatDimensions(element) });
+    }
+
+    if (old.componentRef?.variant !== element.componentRef?.variant) {
+      add({ kind: "variants", element: element.name, path, before: old.componentRef?.variant, after: element.componentRef?.variant });
+    }
+
+    // Per-instance texts and property values, reported under the instance's own path
+    const oldOverrides = previous.overrides || new Map<string, InstanceOverride>();
+    const newOverrides = overrides || new Map<string, InstanceOverride>();
+    for (const overrideKey of new Set([...oldOverrides.keys(), ...newOverrides.keys()])) {
+      const from = oldOverrides.get(overrideKey);
+      const to = newOverrides.get(overrideKey);
+      if (from?.value !== to?.value) {
+        const { kind, element: name, path: overridePath } = (to || from)!;
+        add({ kind, element: name, path: overridePath, before: from?.value, after: to?.value });
+      }
+    }
+  }
+
+  return { componentName: after.name, fromVersion, toVersion, changes };
+}
+
+// Changes grouped by kind, in report order
+export function groupChanges(diff: ComponentDiff): { kind: ChangeKind; heading: string; changes: ElementChange[] }[] {
+  return (Object.keys(CHANGE_HEADINGS) as ChangeKind[])
+    .map((kind) => ({ kind, heading: CHANGE_HEADINGS[kind], changes: diff.changes.filter((c) => c.kind === kind) }))
+    .filter((group) => group.changes.length > 0);
+}
+
+export function describeChange(change: ElementChange): string {
+  if (change.kind === "added" || change.kind === "removed") {
+    return change.path;
+  }
+  const before = change.before !== undefined ? `"${change.before}"` : "none";
+  const after = change.after !== undefined ? `"${change.after}"` : "none";
+  return `${change.path}: ${before} -> ${after}`;
+}
+
+// Plain-text report, one line per change - used for Jira comments and the UI
+export function formatChangeReport(diff: ComponentDiff): string {
+  const lines = [`Design changes to ${diff.componentName} (${diff.fromVersion} -> ${diff.toVersion})`];
+
+  if (diff.changes.length === 0) {
+    lines.push("No changes to elements, text, colors, dimensions or variants.");
+    return lines.join("\n");
+  }
+
+  const groups = groupChanges(diff);
+  lines.push(groups.map((g) => `${g.changes.length} ${g.heading.toLowerCase()}`).join(", "));
+  for (const group of groups) {
+    lines.push("");
+    lines.push(`${group.heading}:`);
+    group.changes.forEach((change) => lines.push(`- ${describeChange(change)}`));
+  }
+  if (diff.changes.length >= MAX_CHANGES) {
+    lines.push("");
+    lines.push(`Report truncated at ${MAX_CHANGES} changes.`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,244 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  getFigmaFile,
+  getFigmaComponentFile,
+  getFigmaFileVersion,
+  getFigmaImages,
+  FigmaFetchStats,
+  FigmaFileResponse,
+  FigmaImageResponse,
+} from "./figma";
+
+// Server-side disk cache for Figma responses, stored under FIGMA_CACHE_DIR (defaults to ./.figma-cache)
+function getCacheDir(): string {
+  return path.resolve(process.env.FIGMA_CACHE_DIR || ".figma-cache");
+}
+
+// Figma image export URLs expire after 30 days - refresh a day early
+const IMAGE_URL_TTL_MS = 29 * 24 * 60 * 60 * 1000;
+
+interface CachedFile {
+  fileKey: string;
+  nodeId?: string;
+  version?: string;
+  lastModified?: string;
+  cachedAt: string;
+  file: FigmaFileResponse;
+}
+
+interface CachedImageUrl {
+  url: string;
+  expiresAt: number;
+}
+
+export interface CachedFigmaFileResult {
+  file: FigmaFileResponse;
+  fromCache: boolean;
+}
+
+function safeFileName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+function fileCachePath(fileKey: string, nodeId?: string, version?: string, depth?: number): string {
+  const name = `${safeFileName(fileKey)}__${nodeId ? safeFileName(nodeId) : "document"}${version ? `@${safeFileName(version)}` : ""}${depth ? `~d${depth}` : ""}`;
+  return path.join(getCacheDir(), "files", `${name}.json`);
+}
+
+function imageCachePath(fileKey: string): string {
+  return path.join(getCacheDir(), "images", `${safeFileName(fileKey)}.json`);
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Cache writes are best effort - a read-only disk should not fail the generation
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+  try {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(data));
+  } catch (e) {
+    console.error("Failed to write Figma cache:", e);
+  }
+}
+
+export interface CachedFetchOptions {
+  forceRefresh?: boolean;
+  onFetched?: (stats: FigmaFetchStats) => void; // called per Figma request, not for cache hits
+}
+
+// The cached payload for cachePath while the file's version is unchanged, otherwise fetch() stored under cachePath
+async function readThroughFileCache<F extends FigmaFileResponse | null>(
+  cachePath: string,
+  token: string,
+  fileKey: string,
+  nodeId: string | undefined,
+  forceRefresh: boolean | undefined,
+  fetch: () => Promise<F>
+): Promise<CachedFigmaFileResult | Extract<F, null>> {
+  if (!forceRefresh) {
+    const cached = await readJson<CachedFile>(cachePath);
+    if (cached) {
+      try {
+        const { version, lastModified } = await getFigmaFileVersion(token, fileKey);
+        if (cached.version === version && cached.lastModified === lastModified) {
+          return { file: cached.file, fromCache: true };
+        }
+      } catch (e) {
+        // Without a version we cannot tell if the cache is stale - fetch fresh data
+        console.error("Failed to check Figma file version:", e);
+      }
+    }
+  }
+
+  const file = await fetch();
+  if (!file) {
+    return null as Extract<F, null>;
+  }
+  const entry: CachedFile = {
+    fileKey,
+    nodeId,
+    version: file.version,
+    lastModified: file.lastModified,
+    cachedAt: new Date().toISOString(),
+    file,
+  };
+  await writeJson(cachePath, entry);
+
+  return { file, fromCache: false };
+}
+
+// getFigmaFile, reusing the cached payload while the file's version is unchanged. Shallow (depth) trees are cached separately.
+export async function getCachedFigmaFile(
+  token: string,
+  fileKey: string,
+  nodeId?: string,
+  options: CachedFetchOptions & { depth?: number } = {}
+): Promise<CachedFigmaFileResult> {
+  return readThroughFileCache(fileCachePath(fileKey, nodeId, undefined, options.depth), token, fileKey, nodeId, options.forceRefresh, () =>
+    getFigmaFile(token, fileKey, nodeId, { depth: options.depth, onFetched: options.onFetched })
+  );
+}
+
+// getFigmaComponentFile, cached per component name - null when the shallow search finds no match
+export async function getCachedFigmaComponentFile(
+  token: string,
+  fileKey: string,
+  componentName: string,
+  scopeNodeId?: string,
+  options: CachedFetchOptions = {}
+): Promise<CachedFigmaFileResult | null> {
+  const cacheKey = `${scopeNodeId || "document"}~${componentName.toLowerCase().trim()}`;
+  return readThroughFileCache(fileCachePath(fileKey, cacheKey), token, fileKey, scopeNodeId, options.forceRefresh, () =>
+    getFigmaComponentFile(token, fileKey, componentName, scopeNodeId, { onFetched: options.onFetched })
+  );
+}
+
+// A specific past version never changes, so it is cached without a freshness check
+export async function getCachedFigmaFileVersion(
+  token: string,
+  fileKey: string,
+  nodeId: string | undefined,
+  version: string
+): Promise<FigmaFileResponse> {
+  const cachePath = fileCachePath(fileKey, nodeId, version);
+  const cached = await readJson<CachedFile>(cachePath);
+  if (cached) {
+    return cached.file;
+  }
+
+  const file = await getFigmaFile(token, fileKey, nodeId, { version });
+  await writeJson(cachePath, {
+    fileKey,
+    nodeId,
+    version,
+    lastModified: file.lastModified,
+    cachedAt: new Date().toISOString(),
+    file,
+  } satisfies CachedFile);
+  return file;
+}
+
+// Image cache files are read-modified-written - chain updates per file so concurrent exports do not drop each other's URLs
+const imageCacheWrites = new Map<string, Promise<void>>();
+
+function updateImageCache(cachePath: string, fresh: Record<string, CachedImageUrl>): Promise<void> {
+  const previous = imageCacheWrites.get(cachePath) || Promise.resolve();
+  const next = previous.then(async () => {
+    // Re-read so entries written since our lookup are kept
+    const cache = { ...((await readJson<Record<string, CachedImageUrl>>(cachePath)) || {}), ...fresh };
+    const now = Date.now();
+    // Drop expired entries while we are rewriting the file anyway
+    for (const [key, entry] of Object.entries(cache)) {
+      if (entry.expiresAt <= now) {
+        delete cache[key];
+      }
+    }
+    await writeJson(cachePath, cache);
+  });
+  imageCacheWrites.set(cachePath, next);
+  return next.finally(() => {
+    if (imageCacheWrites.get(cachePath) === next) {
+      imageCacheWrites.delete(cachePath);
+    }
+  });
+}
+
+// getFigmaImages, reusing export URLs until they expire. Only missing ids are requested.
+// URLs are keyed by file version - pass options.version when known, otherwise it is looked up.
+export async function getCachedFigmaImages(
+  token: string,
+  fileKey: string,
+  nodeIds: string[],
+  format: "png" | "svg" | "jpg" = "png",
+  scale: number = 2,
+  options: { forceRefresh?: boolean; version?: string } = {}
+): Promise<FigmaImageResponse> {
+  let version = options.version;
+  if (!version) {
+    try {
+      version = (await getFigmaFileVersion(token, fileKey)).version;
+    } catch (e) {
+      // Without a version a cached render may be stale - export fresh and skip the cache
+      console.error("Failed to check Figma file version:", e);
+    }
+  }
+
+  const cachePath = imageCachePath(fileKey);
+  const cache = version && !options.forceRefresh ? (await readJson<Record<string, CachedImageUrl>>(cachePath)) || {} : {};
+  const cacheKey = (id: string) => `${version}|${id}|${format}|${scale}`;
+  const now = Date.now();
+
+  const images: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const id of nodeIds) {
+    const entry = cache[cacheKey(id)];
+    if (entry && entry.expiresAt > now) {
+      images[id] = entry.url;
+    } else {
+      missing.push(id);
+    }
+  }
+
+  if (missing.length > 0) {
+    const fresh = await getFigmaImages(token, fileKey, missing, format, scale);
+    const entries: Record<string, CachedImageUrl> = {};
+    for (const [id, url] of Object.entries(fresh.images)) {
+      if (!url) continue;
+      images[id] = url;
+      entries[cacheKey(id)] = { url, expiresAt: now + IMAGE_URL_TTL_MS };
+    }
+
+    if (version && Object.keys(entries).length > 0) {
+      await updateImageCache(cachePath, entries);
+    }
+  }
+
+  return { images };
+}
@@ -0,0 +1,126 @@
+// Figma link parsing - kept free of server-only imports so the form can validate URLs inline
+
+export type FigmaLinkType = "file" | "design" | "proto" | "board" | "slides";
+
+export interface ParsedFigmaUrl {
+  fileKey: string; // key to call the REST API with - the branch key for branch links
+  nodeId?: string; // "1:2" form
+  pageId?: string; // set by ?page-id links
+  mainFileKey?: string; // the file a branch belongs to
+  branchKey?: string;
+  linkType: FigmaLinkType;
+  devMode: boolean;
+}
+
+export type FigmaUrlErrorCode =
+  | "empty"
+  | "invalid_url"
+  | "not_figma"
+  | "unsupported_link"
+  | "missing_file_key"
+  | "invalid_node_id";
+
+export class FigmaUrlError extends Error {
+  readonly code: FigmaUrlErrorCode;
+
+  constructor(code: FigmaUrlErrorCode, message: string) {
+    super(message);
+    this.name = "FigmaUrlError";
+    this.code = code;
+  }
+}
+
+const LINK_TYPES: FigmaLinkType[] = ["file", "design", "proto", "board", "slides"];
+
+// Community files are copies that must be duplicated before the API can read them
+const UNSUPPORTED_SEGMENTS: Record<string, string> = {
+  community: "Community links cannot be read by the API - duplicate the file to your drafts and use that link",
+  files: "This is a project or team link - open a file and copy its link instead",
+};
+
+// node-id appears as "1-2" in share links, "1:2" or "1%3A2" elsewhere; instance ids look like "I1-2;3-4"
+function normalizeNodeId(value: string): string {
+  const nodeId = value.includes(":") ? value : value.replace(/-/g, ":");
+  if (!/^I?\d+:\d+(;I?\d+:\d+)*$/.test(nodeId)) {
+    throw new FigmaUrlError("invalid_node_id", `"${value}" is not a valid Figma node id`);
+  }
+  return nodeId;
+}
+
+export function parseFigmaUrl(url: string): ParsedFigmaUrl {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    throw new FigmaUrlError("empty", "Figma URL is required");
+  }
+
+  let urlObj: URL;
+  try {
+    // Allow links pasted without the protocol, e.g. figma.com/design/...
+    urlObj = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new FigmaUrlError("invalid_url", "Figma URL is not a valid URL");
+  }
+
+  const host = urlObj.hostname.toLowerCase();
+  if (host !== "figma.com" && !host.endsWith(".figma.com")) {
+    throw new FigmaUrlError("not_figma", "URL must be a figma.com link");
+  }
+
+  // Embed links carry the real file URL in ?url=
+  const embedded = urlObj.searchParams.get("url");
+  if (urlObj.pathname.replace(/\/$/, "") === "/embed" && embedded) {
+    return parseFigmaUrl(embedded);
+  }
+
+  const pathParts = urlObj.pathname.split("/").filter(Boolean);
+  // Checked first - community links also contain /file/
+  if (UNSUPPORTED_SEGMENTS[pathParts[0]]) {
+    throw new FigmaUrlError("unsupported_link", UNSUPPORTED_SEGMENTS[pathParts[0]]);
+  }
+
+  const typeIndex = pathParts.findIndex((part) => LINK_TYPES.includes(part as FigmaLinkType));
+  if (typeIndex === -1) {
+    throw new FigmaUrlError(
+      "unsupported_link",
+      "Unrecognised Figma link - expected a /design/, /file/, /proto/ or /board/ URL"
+    );
+  }
+
+  const linkType = pathParts[typeIndex] as FigmaLinkType;
+  const mainFileKey = pathParts[typeIndex + 1];
+  if (!mainFileKey) {
+    throw new FigmaUrlError("missing_file_key", "Figma URL does not contain a file key");
+  }
+
+  // /design/:fileKey/branch/:branchKey/... - the API reads a branch through its own key
+  const branchKey = pathParts[typeIndex + 2] === "branch" ? pathParts[typeIndex + 3] : undefined;
+  if (pathParts[typeIndex + 2] === "branch" && !branchKey) {
+    throw new FigmaUrlError("missing_file_key", "Figma branch URL does not contain a branch key");
+  }
+
+  const nodeIdParam = urlObj.searchParams.get("node-id");
+  const pageIdParam = urlObj.searchParams.get("page-id");
+
+  return {
+    fileKey: branchKey || mainFileKey,
+    nodeId: nodeIdParam ? normalizeNodeId(nodeIdParam) : undefined,
+    pageId: pageIdParam ? normalizeNodeId(pageIdParam) : undefined,
+    mainFileKey: branchKey ? mainFileKey : undefined,
+    branchKey,
+    linkType,
+    devMode: urlObj.searchParams.get("m") === "dev" || urlObj.searchParams.get("mode") === "dev",
+  };
+}
+
+// Returns an error message for the form, or null when the URL is usable
+export function validateFigmaUrl(url: string, options: { requireNode?: boolean } = {}): string | null {
+  try {
+    const parsed = parseFigmaUrl(url);
+    if (options.requireNode && !parsed.nodeId) {
+      return "Link must point to a frame - right-click it in Figma and choose Copy link to selection";
+    }
+    return null;
+  } catch (e) {
+    return e instanceof FigmaUrlError ? e.message : "Figma URL is not valid";
+  }
+}
@@ -1,3 +1,7 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { httpJson, httpRequest } from "./http";
+
 export interface FigmaNode {
   id: string;
   name: string;
@@ -9,14 +13,9 @@ export interface FigmaNode {
     height: number;
   };
   children?: FigmaNode[];
-  fills?: Array<{
-    type: string;
-    color?: { r: number; g: number; b: number; a: number };
-  }>;
-  strokes?: Array<{
-    type: string;
-    color?: { r: number; g: number; b: number; a: number };
-  }>;
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  effects?: FigmaEffect[];
   characters?: string;
   style?: {
     fontFamily?: string;
@@ -24,18 +23,135 @@ export interface FigmaNode {
     fontWeight?: number;
     lineHeightPx?: number;
   };
+  // Auto-layout
+  layoutMode?: "NONE" | "HORIZONTAL" | "VERTICAL";
+  layoutWrap?: "NO_WRAP" | "WRAP";
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  primaryAxisAlignItems?: "MIN" | "CENTER" | "MAX" | "SPACE_BETWEEN";
+  counterAxisAlignItems?: "MIN" | "CENTER" | "MAX" | "BASELINE";
+  constraints?: {
+    vertical: "TOP" | "BOTTOM" | "CENTER" | "TOP_BOTTOM" | "SCALE";
+    horizontal: "LEFT" | "RIGHT" | "CENTER" | "LEFT_RIGHT" | "SCALE";
+  };
+  cornerRadius?: number;
+  rectangleCornerRadii?: [number, number, number, number];
+  // Published style ids by property (fill, stroke, text, effect, grid)
+  styles?: Record<string, string>;
+  // Local variables bound to node properties (fills, itemSpacing, paddingLeft, ...)
+  boundVariables?: Record<string, FigmaVariableAlias | FigmaVariableAlias[]>;
+  // Component properties - definitions on COMPONENT_SET/COMPONENT, values on INSTANCE
+  componentPropertyDefinitions?: Record<string, FigmaComponentPropertyDefinition>;
+  componentProperties?: Record<string, { type: FigmaComponentPropertyType; value: string | boolean }>;
+  // Prototype interactions
+  reactions?: FigmaReaction[];
+  // Main component of an INSTANCE - key into FigmaFileResponse.components
+  componentId?: string;
+  // Layer visibility - omitted when visible / fully opaque / not a mask
+  visible?: boolean;
+  opacity?: number;
+  isMask?: boolean;
+}
+
+interface FigmaReaction {
+  trigger: { type: string; delay?: number } | null;
+  action?: FigmaAction | null; // deprecated single action, still sent for older files
+  actions?: FigmaAction[];
+}
+
+interface FigmaAction {
+  type: "NODE" | "URL" | "BACK" | "CLOSE";
+  destinationId?: string | null;
+  navigation?: "NAVIGATE" | "SWAP" | "OVERLAY" | "SCROLL_TO" | "CHANGE_TO";
+  url?: string;
+  openInNewTab?: boolean;
+}
+
+type FigmaComponentPropertyType = "BOOLEAN" | "TEXT" | "INSTANCE_SWAP" | "VARIANT";
+
+interface FigmaComponentPropertyDefinition {
+  type: FigmaComponentPropertyType;
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+  preferredValues?: Array<{ type: "COMPONENT" | "COMPONENT_SET"; key: string }>;
+}
+
+interface FigmaVariableAlias {
+  type: "VARIABLE_ALIAS";
+  id: string;
+}
+
+export interface FigmaStyleMeta {
+  key: string;
+  name: string;
+  styleType: "FILL" | "TEXT" | "EFFECT" | "GRID";
+  description?: string;
+}
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  resolvedType: "COLOR" | "FLOAT" | "STRING" | "BOOLEAN";
+}
+
+export interface FigmaVariablesResponse {
+  meta: {
+    variables: Record<string, FigmaVariable>;
+    variableCollections: Record<string, { id: string; name: string }>;
+  };
+}
+
+interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface FigmaPaint {
+  type: "SOLID" | "GRADIENT_LINEAR" | "GRADIENT_RADIAL" | "GRADIENT_ANGULAR" | "GRADIENT_DIAMOND" | "IMAGE" | "EMOJI" | "VIDEO";
+  visible?: boolean;
+  opacity?: number;
+  color?: FigmaColor;
+  gradientStops?: Array<{ position: number; color: FigmaColor }>;
+  imageRef?: string;
+  scaleMode?: "FILL" | "FIT" | "TILE" | "STRETCH";
+}
+
+export interface FigmaEffect {
+  type: "DROP_SHADOW" | "INNER_SHADOW" | "LAYER_BLUR" | "BACKGROUND_BLUR";
+  visible?: boolean;
+  radius: number;
+  color?: FigmaColor;
+  offset?: { x: number; y: number };
+  spread?: number;
 }
 
 export interface FigmaFileResponse {
   name: string;
   document: FigmaNode;
-  components: Record<string, { key: string; name: string; description: string }>;
+  components: Record<string, { key: string; name: string; description: string; componentSetId?: string }>;
+  componentSets?: Record<string, { key: string; name: string; description: string }>;
+  styles?: Record<string, FigmaStyleMeta>;
+  version?: string;
+  lastModified?: string;
 }
 
 export interface FigmaImageResponse {
   images: Record<string, string>;
 }
 
+// Download URLs for the original images behind image fills, keyed by imageRef
+export interface FigmaImageFillsResponse {
+  meta: {
+    images: Record<string, string>;
+  };
+}
+
 export interface ExtractedComponent {
   name: string;
   type: string;
@@ -43,11 +159,80 @@ export interface ExtractedComponent {
   children: ExtractedElement[];
   imageUrl?: string;
   nodeId?: string; // Store the node ID for image export
+  fillColor?: string;
+  layout?: ElementLayout;
+  tokens?: ElementToken[];
+  properties?: ComponentProperty[];
+  interactions?: ExtractedInteraction[];
+  sharedComponents?: SharedComponent[];
+  comments?: DesignerComment[]; // attached by the caller from the file comments
+  pruned?: PruneStats;
+}
+
+// Layers left out of extraction, counted with their descendants
+export interface PruneStats {
+  hidden: number; // visible: false
+  transparent: number; // opacity 0
+  masks: number; // mask shapes - they clip siblings but are not content
+  vectorParts: number; // paths inside collapsed vector/boolean icons
+}
+
+// Variant axis or component property (Theme=Dark, Show Icon, Icon swap, ...)
+export interface ComponentProperty {
+  name: string;
+  type: "variant" | "boolean" | "instance-swap" | "text";
+  options?: string[];
+  defaultValue?: string;
+}
+
+export interface ExtractedGradient {
+  type: "linear" | "radial" | "angular" | "diamond";
+  stops: { position: number; color: string }[];
+}
+
+export interface ExtractedImageFill {
+  imageRef: string;
+  scaleMode: string;
+}
+
+export interface ExtractedEffect {
+  type: "drop-shadow" | "inner-shadow" | "layer-blur" | "background-blur";
+  radius: number;
+  color?: string;
+  offset?: { x: number; y: number };
+  spread?: number;
+}
+
+export type DesignTokenType = "color" | "type" | "effect" | "space" | "radius";
+
+// A named design token (from a published style or a local variable) applied to an element
+export interface ElementToken {
+  property: "fill" | "stroke" | "text" | "effect" | "spacing" | "radius";
+  name: string; // e.g. color/brand/primary, type/heading-1
+  type: DesignTokenType;
+  value: string;
+}
+
+// Styles and variables used to resolve raw values into named tokens
+export interface DesignTokenSources {
+  styles: Record<string, FigmaStyleMeta>;
+  variables: Record<string, FigmaVariable>;
+}
+
+export interface ElementLayout {
+  direction: "horizontal" | "vertical";
+  wrap: boolean;
+  padding: { top: number; right: number; bottom: number; left: number };
+  itemSpacing: number;
+  counterAxisSpacing?: number;
+  primaryAxisAlign: string;
+  counterAxisAlign: string;
 }
 
 export interface ExtractedElement {
   name: string;
   type: string;
+  nodeId?: string;
   dimensions?: { width: number; height: number };
   text?: string;
   fontInfo?: {
@@ -56,9 +241,59 @@ export interface ExtractedElement {
     weight: number;
   };
   colors?: string[];
+  fillColor?: string; // top-most visible solid fill - the text color for TEXT nodes
+  gradients?: ExtractedGradient[];
+  imageFills?: ExtractedImageFill[];
+  effects?: ExtractedEffect[];
+  tokens?: ElementToken[];
+  layout?: ElementLayout;
+  constraints?: { horizontal: string; vertical: string };
+  cornerRadius?: number | [number, number, number, number];
+  interactions?: ExtractedInteraction[];
+  componentRef?: ComponentReference; // set on collapsed instances - children live on the shared component
+  vectorIcon?: boolean; // vector/boolean group collapsed into one icon - its parts are not extracted
   children?: ExtractedElement[];
 }
 
+// Main component behind an INSTANCE
+export interface ComponentReference {
+  id: string; // shared component id - the component set when the main component is a variant
+  name: string;
+  variant?: string; // e.g. "Size=Large, Type=Primary"
+  // What this instance overrides - the shared component only documents the first instance's layers
+  texts?: InstanceText[];
+  properties?: Record<string, string | boolean>; // non-variant property values, e.g. { "Show Icon": false }
+}
+
+// Full text of one text layer inside an instance
+export interface InstanceText {
+  layer: string;
+  text: string;
+}
+
+// A main component used by instances in the design - documented once as a reusable child template
+export interface SharedComponent {
+  id: string;
+  key?: string; // published library key, stable across files
+  name: string;
+  description?: string;
+  instanceCount: number;
+  usedIn: string[]; // parent element names
+  variants: string[];
+  sampleText: string[]; // text found in the instances, e.g. button labels
+  children: ExtractedElement[]; // extracted once, from the first instance
+  background?: string; // behind the first instance's layers - its own fill or its nearest ancestor's, "image" for image fills
+}
+
+// Prototype interaction, e.g. click -> navigate to "Contact Us", hover -> change to "State=Hover"
+export interface ExtractedInteraction {
+  trigger: string; // click, hover, press, drag, timeout, ...
+  action: "navigate" | "change_to" | "overlay" | "swap" | "scroll_to" | "open_url" | "back" | "close";
+  destination?: string; // destination frame or variant name
+  url?: string;
+  newTab?: boolean;
+}
+
 function rgbaToHex(r: number, g: number, b: number, a: number): string {
   const toHex = (n: number) =>
     Math.round(n * 255)
@@ -67,29 +302,495 @@ function rgbaToHex(r: number, g: number, b: number, a: number): string {
   return `#${toHex(r)}${toHex(g)}${toHex(b)}${a < 1 ? toHex(a) : ""}`;
 }
 
+// Hidden paints stay in the fills array with visible: false
+function isVisiblePaint(paint: FigmaPaint): boolean {
+  return paint.visible !== false;
+}
+
 function extractColors(node: FigmaNode): string[] {
   const colors: string[] = [];
   if (node.fills) {
     for (const fill of node.fills) {
-      if (fill.type === "SOLID" && fill.color) {
-        colors.push(rgbaToHex(fill.color.r, fill.color.g, fill.color.b, fill.color.a));
+      if (fill.type === "SOLID" && fill.color && isVisiblePaint(fill)) {
+        colors.push(rgbaToHex(fill.color.r, fill.color.g, fill.color.b, fill.color.a * (fill.opacity ?? 1)));
       }
     }
   }
   if (node.strokes) {
     for (const stroke of node.strokes) {
-      if (stroke.type === "SOLID" && stroke.color) {
-        colors.push(rgbaToHex(stroke.color.r, stroke.color.g, stroke.color.b, stroke.color.a));
+      if (stroke.type === "SOLID" && stroke.color && isVisiblePaint(stroke)) {
+        colors.push(rgbaToHex(stroke.color.r, stroke.color.g, stroke.color.b, stroke.color.a * (stroke.opacity ?? 1)));
       }
     }
   }
   return colors;
 }
 
-function extractElement(node: FigmaNode): ExtractedElement {
+// Figma paints later fills on top of earlier ones
+function extractFillColor(node: FigmaNode): string | undefined {
+  const fill = [...(node.fills || [])].reverse().find((f) => f.type === "SOLID" && f.color && isVisiblePaint(f));
+  return fill?.color ? rgbaToHex(fill.color.r, fill.color.g, fill.color.b, fill.color.a * (fill.opacity ?? 1)) : undefined;
+}
+
+const GRADIENT_TYPES: Record<string, ExtractedGradient["type"]> = {
+  GRADIENT_LINEAR: "linear",
+  GRADIENT_RADIAL: "radial",
+  GRADIENT_ANGULAR: "angular",
+  GRADIENT_DIAMOND: "diamond",
+};
+
+function toExtractedGradient(paint: FigmaPaint): ExtractedGradient | null {
+  const type = GRADIENT_TYPES[paint.type];
+  if (!type || !paint.gradientStops) return null;
+  return {
+    type,
+    stops: paint.gradientStops.map((stop) => ({
+      position: Math.round(stop.position * 100) / 100,
+      color: rgbaToHex(stop.color.r, stop.color.g, stop.color.b, stop.color.a * (paint.opacity ?? 1)),
+    })),
+  };
+}
+
+function extractGradients(node: FigmaNode): ExtractedGradient[] {
+  const gradients: ExtractedGradient[] = [];
+  for (const fill of node.fills || []) {
+    const gradient = isVisiblePaint(fill) ? toExtractedGradient(fill) : null;
+    if (gradient) {
+      gradients.push(gradient);
+    }
+  }
+  return gradients;
+}
+
+function extractImageFills(node: FigmaNode): ExtractedImageFill[] {
+  const imageFills: ExtractedImageFill[] = [];
+  for (const fill of node.fills || []) {
+    if (fill.type === "IMAGE" && fill.imageRef && isVisiblePaint(fill)) {
+      imageFills.push({ imageRef: fill.imageRef, scaleMode: fill.scaleMode || "FILL" });
+    }
+  }
+  return imageFills;
+}
+
+function extractEffects(node: FigmaNode): ExtractedEffect[] {
+  const effects: ExtractedEffect[] = [];
+  for (const effect of node.effects || []) {
+    if (effect.visible === false) continue;
+    const extracted: ExtractedEffect = {
+      type: effect.type.toLowerCase().replace("_", "-") as ExtractedEffect["type"],
+      radius: effect.radius,
+    };
+    if (effect.color) {
+      extracted.color = rgbaToHex(effect.color.r, effect.color.g, effect.color.b, effect.color.a);
+    }
+    if (effect.offset) {
+      extracted.offset = { x: effect.offset.x, y: effect.offset.y };
+    }
+    if (effect.spread) {
+      extracted.spread = effect.spread;
+    }
+    effects.push(extracted);
+  }
+  return effects;
+}
+
+export function describeGradient(gradient: ExtractedGradient): string {
+  return `${gradient.type}-gradient(${gradient.stops.map((s) => `${s.color} ${Math.round(s.position * 100)}%`).join(", ")})`;
+}
+
+export function describeEffect(effect: ExtractedEffect): string {
+  if (effect.type === "drop-shadow" || effect.type === "inner-shadow") {
+    const { x, y } = effect.offset || { x: 0, y: 0 };
+    return `${effect.type} ${x}px ${y}px ${effect.radius}px${effect.spread ? ` ${effect.spread}px` : ""} ${effect.color || ""}`.trim();
+  }
+  return `${effect.type} ${effect.radius}px`;
+}
+
+function extractLayout(node: FigmaNode): ElementLayout | undefined {
+  if (!node.layoutMode || node.layoutMode === "NONE") {
+    return undefined;
+  }
+
+  const layout: ElementLayout = {
+    direction: node.layoutMode === "HORIZONTAL" ? "horizontal" : "vertical",
+    wrap: node.layoutWrap === "WRAP",
+    padding: {
+      top: node.paddingTop || 0,
+      right: node.paddingRight || 0,
+      bottom: node.paddingBottom || 0,
+      left: node.paddingLeft || 0,
+    },
+    itemSpacing: node.itemSpacing || 0,
+    primaryAxisAlign: node.primaryAxisAlignItems || "MIN",
+    counterAxisAlign: node.counterAxisAlignItems || "MIN",
+  };
+
+  if (layout.wrap && node.counterAxisSpacing !== undefined) {
+    layout.counterAxisSpacing = node.counterAxisSpacing;
+  }
+
+  return layout;
+}
+
+function extractCornerRadius(node: FigmaNode): number | [number, number, number, number] | undefined {
+  // Mixed corners are only reported through rectangleCornerRadii
+  if (node.rectangleCornerRadii && new Set(node.rectangleCornerRadii).size > 1) {
+    return node.rectangleCornerRadii;
+  }
+  return node.cornerRadius || undefined;
+}
+
+// Leading group names that only repeat the token category, e.g. "Colors/Brand/Primary"
+const TOKEN_CATEGORY_ALIASES: Record<DesignTokenType, string[]> = {
+  color: ["color", "colors", "colour", "colours"],
+  type: ["type", "typography", "text", "font", "fonts"],
+  effect: ["effect", "effects", "shadow", "shadows", "elevation"],
+  space: ["space", "spacing", "spacings"],
+  radius: ["radius", "radii", "corner", "corners"],
+};
+
+function slugifyTokenSegment(segment: string): string {
+  return segment
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// "Brand/Primary" (FILL style) -> "color/brand/primary", "Heading 1" (TEXT style) -> "type/heading-1"
+export function toTokenName(type: DesignTokenType, name: string): string {
+  const segments = name.split("/").map(slugifyTokenSegment).filter(Boolean);
+  if (segments.length > 1 && TOKEN_CATEGORY_ALIASES[type].includes(segments[0])) {
+    segments.shift();
+  }
+  return [type, ...segments].join("/");
+}
+
+function firstVisiblePaintValue(paints: FigmaPaint[] | undefined): string {
+  const paint = paints?.find(isVisiblePaint);
+  if (!paint) return "";
+  if (paint.type === "SOLID" && paint.color) {
+    return rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.color.a * (paint.opacity ?? 1));
+  }
+  const gradient = toExtractedGradient(paint);
+  return gradient ? describeGradient(gradient) : paint.type.toLowerCase();
+}
+
+function describeTextStyle(node: FigmaNode): string {
+  if (!node.style) return "";
+  const { fontFamily, fontSize, fontWeight, lineHeightPx } = node.style;
+  return `${fontFamily || "Unknown"} ${fontWeight || 400} ${fontSize || 0}px${lineHeightPx ? `/${Math.round(lineHeightPx)}px` : ""}`;
+}
+
+function firstVariableAlias(binding: FigmaVariableAlias | FigmaVariableAlias[] | undefined): FigmaVariableAlias | undefined {
+  return Array.isArray(binding) ? binding[0] : binding;
+}
+
+const SPACING_VARIABLE_FIELDS = ["itemSpacing", "paddingTop", "paddingRight", "paddingBottom", "paddingLeft"] as const;
+const RADIUS_VARIABLE_FIELDS = ["topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"] as const;
+
+function extractTokens(node: FigmaNode, sources: DesignTokenSources): ElementToken[] {
+  const tokens: ElementToken[] = [];
+  const add = (token: ElementToken) => {
+    if (!tokens.some((t) => t.property === token.property && t.name === token.name)) {
+      tokens.push(token);
+    }
+  };
+  const styleName = (property: string) => {
+    const styleId = node.styles?.[property] || node.styles?.[`${property}s`];
+    return styleId ? sources.styles[styleId]?.name : undefined;
+  };
+  const variableName = (field: string) => {
+    const alias = firstVariableAlias(node.boundVariables?.[field]);
+    return alias ? sources.variables[alias.id]?.name : undefined;
+  };
+
+  // Published styles take precedence over variables bound to the same paint
+  const fillName = styleName("fill") || variableName("fills");
+  if (fillName) {
+    add({ property: "fill", name: toTokenName("color", fillName), type: "color", value: firstVisiblePaintValue(node.fills) });
+  }
+
+  const strokeName = styleName("stroke") || variableName("strokes");
+  if (strokeName) {
+    add({ property: "stroke", name: toTokenName("color", strokeName), type: "color", value: firstVisiblePaintValue(node.strokes) });
+  }
+
+  const textName = styleName("text");
+  if (textName) {
+    add({ property: "text", name: toTokenName("type", textName), type: "type", value: describeTextStyle(node) });
+  }
+
+  const effectName = styleName("effect");
+  if (effectName) {
+    add({ property: "effect", name: toTokenName("effect", effectName), type: "effect", value: extractEffects(node).map(describeEffect).join(", ") });
+  }
+
+  for (const field of SPACING_VARIABLE_FIELDS) {
+    const name = variableName(field);
+    if (name) {
+      add({ property: "spacing", name: toTokenName("space", name), type: "space", value: `${node[field] || 0}px` });
+    }
+  }
+
+  for (const field of RADIUS_VARIABLE_FIELDS) {
+    const name = variableName(field);
+    if (name) {
+      add({ property: "radius", name: toTokenName("radius", name), type: "radius", value: `${node.cornerRadius || 0}px` });
+    }
+  }
+
+  return tokens;
+}
+
+const EMPTY_TOKEN_SOURCES: DesignTokenSources = { styles: {}, variables: {} };
+
+const INTERACTION_TRIGGERS: Record<string, string> = {
+  ON_CLICK: "click",
+  ON_HOVER: "hover",
+  WHILE_HOVERING: "hover",
+  MOUSE_ENTER: "hover",
+  MOUSE_LEAVE: "mouse leave",
+  ON_PRESS: "press",
+  WHILE_PRESSING: "press",
+  ON_DRAG: "drag",
+  AFTER_TIMEOUT: "timeout",
+  ON_KEY_DOWN: "key press",
+};
+
+const NAVIGATION_ACTIONS: Record<NonNullable<FigmaAction["navigation"]>, ExtractedInteraction["action"]> = {
+  NAVIGATE: "navigate",
+  CHANGE_TO: "change_to",
+  OVERLAY: "overlay",
+  SWAP: "swap",
+  SCROLL_TO: "scroll_to",
+};
+
+// Id -> name for every node and component, so interaction destinations can be named
+function buildNodeNameIndex(document: FigmaNode, components: FigmaFileResponse["components"]): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const [id, component] of Object.entries(components)) {
+    names[id] = component.name;
+  }
+  function traverse(node: FigmaNode): void {
+    names[node.id] = node.name;
+    node.children?.forEach(traverse);
+  }
+  traverse(document);
+  return names;
+}
+
+function extractInteractions(node: FigmaNode, nodeNames: Record<string, string>): ExtractedInteraction[] {
+  const interactions: ExtractedInteraction[] = [];
+
+  for (const reaction of node.reactions || []) {
+    if (!reaction.trigger) continue;
+    const trigger = INTERACTION_TRIGGERS[reaction.trigger.type] || reaction.trigger.type.toLowerCase().replace(/_/g, " ");
+    const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+
+    for (const action of actions) {
+      if (action.type === "URL" && action.url) {
+        interactions.push({ trigger, action: "open_url", url: action.url, newTab: action.openInNewTab || undefined });
+      } else if (action.type === "NODE" && action.destinationId) {
+        interactions.push({
+          trigger,
+          action: NAVIGATION_ACTIONS[action.navigation || "NAVIGATE"] || "navigate",
+          destination: nodeNames[action.destinationId] || `frame ${action.destinationId}`,
+        });
+      } else if (action.type === "BACK" || action.type === "CLOSE") {
+        interactions.push({ trigger, action: action.type === "BACK" ? "back" : "close" });
+      }
+    }
+  }
+
+  return interactions;
+}
+
+// Plain statement of an interaction, e.g. "click navigates to Contact Us"
+export function describeInteraction(interaction: ExtractedInteraction): string {
+  const { trigger, destination } = interaction;
+  switch (interaction.action) {
+    case "open_url":
+      return `${trigger} opens ${interaction.url}${interaction.newTab ? " in a new tab" : ""}`;
+    case "change_to":
+      return `${trigger} changes to the ${destination} variant`;
+    case "overlay":
+      return `${trigger} opens ${destination} as an overlay`;
+    case "swap":
+      return `${trigger} swaps to ${destination}`;
+    case "scroll_to":
+      return `${trigger} scrolls to ${destination}`;
+    case "back":
+      return `${trigger} goes back`;
+    case "close":
+      return `${trigger} closes the overlay`;
+    default:
+      return `${trigger} navigates to ${destination}`;
+  }
+}
+
+// State shared by one extractComponentData run
+interface ExtractionContext {
+  sources: DesignTokenSources;
+  nodeNames: Record<string, string>;
+  components: FigmaFileResponse["components"];
+  componentSets: NonNullable<FigmaFileResponse["componentSets"]>;
+  shared: Map<string, SharedComponent>;
+  pruned: PruneStats;
+}
+
+const VECTOR_PART_TYPES = ["VECTOR", "BOOLEAN_OPERATION", "STAR", "POLYGON", "REGULAR_POLYGON", "ELLIPSE", "LINE"];
+// Parts that are drawn paths rather than primitive shapes
+const VECTOR_PATH_TYPES = ["VECTOR", "BOOLEAN_OPERATION"];
+
+function countNodes(node: FigmaNode): number {
+  return 1 + (node.children || []).reduce((sum, child) => sum + countNodes(child), 0);
+}
+
+function pruneReason(node: FigmaNode): Exclude<keyof PruneStats, "vectorParts"> | null {
+  if (node.visible === false) return "hidden";
+  if (node.opacity === 0) return "transparent";
+  if (node.isMask) return "masks";
+  return null;
+}
+
+// Boolean operations, and groups made only of paths, are drawn as one shape - e.g. an icon built from several vectors.
+// A group of plain shapes (ellipses, lines, ...) is only collapsed when at least one part is a real path.
+function isVectorGroup(node: FigmaNode): boolean {
+  const parts = (node.children || []).filter((child) => !pruneReason(child));
+  if (parts.length === 0) return false;
+  if (node.type === "BOOLEAN_OPERATION") return true;
+  if (node.type !== "GROUP" && node.type !== "FRAME") return false;
+  const allShapes = parts.every((child) =>
+    (VECTOR_PART_TYPES.includes(child.type) && !child.fills?.some((f) => f.type === "IMAGE")) || isVectorGroup(child)
+  );
+  return allShapes && parts.some((child) => VECTOR_PATH_TYPES.includes(child.type) || isVectorGroup(child));
+}
+
+const ICON_NAME = /\bicons?\b/i;
+
+// Collapsed vector groups, and layers or instances named "icon" - whole words only, so "Video" or "Iconic" do not match
+export function isIconElement(el: ExtractedElement): boolean {
+  return Boolean(el.vectorIcon) || ICON_NAME.test(el.name) || ICON_NAME.test(el.componentRef?.name || "");
+}
+
+// e.g. "12 hidden, 3 masks, 40 vector parts" - empty when nothing was pruned
+export function describePruneStats(stats: PruneStats): string {
+  const parts = [
+    stats.hidden && `${stats.hidden} hidden`,
+    stats.transparent && `${stats.transparent} transparent`,
+    stats.masks && `${stats.masks} mask${stats.masks === 1 ? "" : "s"}`,
+    stats.vectorParts && `${stats.vectorParts} vector parts`,
+  ];
+  return parts.filter(Boolean).join(", ");
+}
+
+// Children worth extracting - hidden, transparent and mask layers are counted and dropped
+// `background` is the fill behind the node's children, used to record what shared components are drawn on
+function extractChildren(node: FigmaNode, ctx: ExtractionContext, background?: string): ExtractedElement[] {
+  const children: ExtractedElement[] = [];
+  for (const child of node.children || []) {
+    const reason = pruneReason(child);
+    if (reason) {
+      ctx.pruned[reason] += countNodes(child);
+    } else {
+      children.push(extractElement(child, ctx, node.name, background));
+    }
+  }
+  return children;
+}
+
+const MAX_SHARED_SAMPLES = 5;
+const MAX_SHARED_USED_IN = 5;
+
+function collectText(node: FigmaNode, texts: string[]): void {
+  if (texts.length >= MAX_SHARED_SAMPLES || pruneReason(node)) return;
+  const text = node.characters?.trim().substring(0, 60);
+  if (text && !texts.includes(text)) {
+    texts.push(text);
+  }
+  node.children?.forEach((child) => collectText(child, texts));
+}
+
+function collectInstanceTexts(node: FigmaNode, texts: InstanceText[]): void {
+  if (pruneReason(node)) return;
+  const text = node.characters?.trim();
+  if (text) {
+    texts.push({ layer: node.name, text });
+  }
+  node.children?.forEach((child) => collectInstanceTexts(child, texts));
+}
+
+// Property values set on an instance - variants are already on the reference, swaps resolve to the component name
+function instanceProperties(node: FigmaNode, ctx: ExtractionContext): Record<string, string | boolean> {
+  const properties: Record<string, string | boolean> = {};
+  for (const [name, property] of Object.entries(node.componentProperties || {})) {
+    if (property.type === "VARIANT") continue;
+    const value =
+      property.type === "INSTANCE_SWAP" && typeof property.value === "string"
+        ? ctx.components[property.value]?.name || property.value
+        : property.value;
+    properties[cleanPropertyName(name)] = value;
+  }
+  return properties;
+}
+
+// Record an instance against its main component. The first instance is extracted in full; later ones only add samples.
+function registerInstance(node: FigmaNode, parentName: string, ctx: ExtractionContext, background?: string): ComponentReference | null {
+  const main = node.componentId ? ctx.components[node.componentId] : undefined;
+  if (!main) return null;
+
+  const set = main.componentSetId ? ctx.componentSets[main.componentSetId] : undefined;
+  const id = set ? main.componentSetId! : node.componentId!;
+  const name = set?.name || main.name;
+  const variant = set ? main.name : undefined;
+
+  let shared = ctx.shared.get(id);
+  if (!shared) {
+    shared = {
+      id,
+      key: set?.key || main.key || undefined,
+      name,
+      description: set?.description || main.description || undefined,
+      instanceCount: 0,
+      usedIn: [],
+      variants: [],
+      sampleText: [],
+      children: [],
+      background,
+    };
+    ctx.shared.set(id, shared);
+    // Registered before recursing so nested instances of the same component do not loop
+    shared.children = extractChildren(node, ctx, background);
+  }
+
+  shared.instanceCount++;
+  if (!shared.usedIn.includes(parentName) && shared.usedIn.length < MAX_SHARED_USED_IN) {
+    shared.usedIn.push(parentName);
+  }
+  if (variant && !shared.variants.includes(variant)) {
+    shared.variants.push(variant);
+  }
+  collectText(node, shared.sampleText);
+
+  const reference: ComponentReference = { id, name, variant };
+  const texts: InstanceText[] = [];
+  collectInstanceTexts(node, texts);
+  if (texts.length > 0) {
+    reference.texts = texts;
+  }
+  const properties = instanceProperties(node, ctx);
+  if (Object.keys(properties).length > 0) {
+    reference.properties = properties;
+  }
+  return reference;
+}
+
+function extractElement(node: FigmaNode, ctx: ExtractionContext, parentName: string, parentBackground?: string): ExtractedElement {
   const element: ExtractedElement = {
     name: node.name,
     type: node.type,
+    nodeId: node.id,
   };
 
   if (node.absoluteBoundingBox) {
@@ -116,67 +817,399 @@ function extractElement(node: FigmaNode): ExtractedElement {
     element.colors = colors;
   }
 
-  if (node.children && node.children.length > 0) {
-    element.children = node.children.map(extractElement);
+  const fillColor = extractFillColor(node);
+  if (fillColor) {
+    element.fillColor = fillColor;
   }
 
-  return element;
-}
+  const gradients = extractGradients(node);
+  if (gradients.length > 0) {
+    element.gradients = gradients;
+  }
+
+  const imageFills = extractImageFills(node);
+  if (imageFills.length > 0) {
+    element.imageFills = imageFills;
+  }
 
-export function parseFigmaUrl(url: string): { fileKey: string; nodeId?: string } {
-  const urlObj = new URL(url);
-  const pathParts = urlObj.pathname.split("/");
+  const effects = extractEffects(node);
+  if (effects.length > 0) {
+    element.effects = effects;
+  }
+
+  const tokens = extractTokens(node, ctx.sources);
+  if (tokens.length > 0) {
+    element.tokens = tokens;
+  }
 
-  // Handle different Figma URL formats
-  // /file/{key}/... or /design/{key}/...
-  let fileKey = "";
-  for (let i = 0; i < pathParts.length; i++) {
-    if (pathParts[i] === "file" || pathParts[i] === "design") {
-      fileKey = pathParts[i + 1];
-      break;
+  const layout = extractLayout(node);
+  if (layout) {
+    element.layout = layout;
+  }
+
+  // Default LEFT/TOP constraints carry no information, skip them
+  if (node.constraints && (node.constraints.horizontal !== "LEFT" || node.constraints.vertical !== "TOP")) {
+    element.constraints = { ...node.constraints };
+  }
+
+  const cornerRadius = extractCornerRadius(node);
+  if (cornerRadius) {
+    element.cornerRadius = cornerRadius;
+  }
+
+  const interactions = extractInteractions(node, ctx.nodeNames);
+  if (interactions.length > 0) {
+    element.interactions = interactions;
+  }
+
+  const background = element.imageFills ? "image" : element.fillColor && node.type !== "TEXT" ? element.fillColor : parentBackground;
+
+  // Instances collapse into a reference - their layers are documented once on the shared component
+  const componentRef = node.type === "INSTANCE" ? registerInstance(node, parentName, ctx, background) : null;
+  if (componentRef) {
+    element.componentRef = componentRef;
+  } else if (isVectorGroup(node)) {
+    element.vectorIcon = true;
+    ctx.pruned.vectorParts += countNodes(node) - 1;
+  } else if (node.children && node.children.length > 0) {
+    const children = extractChildren(node, ctx, background);
+    if (children.length > 0) {
+      element.children = children;
     }
   }
 
-  const nodeId = urlObj.searchParams.get("node-id")?.replace(/-/g, ":") || undefined;
+  return element;
+}
+
+// Size of one Figma file response, reported as progress for large files
+export interface FigmaFetchStats {
+  bytes: number;
+  nodes: number;
+  depth?: number; // set for shallow fetches
+}
+
+// e.g. "2.4 MB, 18,210 nodes in 3 requests"
+export function describeFetchStats(stats: FigmaFetchStats[]): string {
+  const bytes = stats.reduce((sum, s) => sum + s.bytes, 0);
+  const nodes = stats.reduce((sum, s) => sum + s.nodes, 0);
+  const size = bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  const requests = stats.length > 1 ? ` in ${stats.length} requests` : "";
+  return `${size}, ${nodes.toLocaleString("en-US")} nodes${requests}`;
+}
 
-  return { fileKey, nodeId };
+export interface FigmaFetchOptions {
+  version?: string; // a version id from getFigmaFileVersions - defaults to the current version
+  depth?: number; // levels of children to return - omit for the full tree
+  onFetched?: (stats: FigmaFetchStats) => void;
+}
+
+// Parses a JSON body while counting its bytes as they stream in, instead of holding a second copy as text
+async function readCountedJson<T>(response: Response): Promise<{ payload: T; bytes: number }> {
+  let bytes = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+  });
+  const payload = (await new Response(response.body?.pipeThrough(counter)).json()) as T;
+  return { payload, bytes };
 }
 
 export async function getFigmaFile(
   token: string,
   fileKey: string,
-  nodeId?: string
+  nodeId?: string,
+  options: FigmaFetchOptions = {}
 ): Promise<FigmaFileResponse> {
+  const params = new URLSearchParams();
+  if (nodeId) params.set("ids", nodeId);
+  if (options.version) params.set("version", options.version);
+  if (options.depth) params.set("depth", String(options.depth));
+  const query = params.toString() ? `?${params}` : "";
   const url = nodeId
-    ? `https://api.figma.com/v1/files/${fileKey}/nodes?ids=${encodeURIComponent(nodeId)}`
-    : `https://api.figma.com/v1/files/${fileKey}`;
+    ? `https://api.figma.com/v1/files/${fileKey}/nodes${query}`
+    : `https://api.figma.com/v1/files/${fileKey}${query}`;
+
+  // Whole documents can be tens of MB - allow longer than the default timeout
+  const { payload, bytes } = await httpRequest(
+    url,
+    {
+      service: "Figma",
+      headers: {
+        "X-Figma-Token": token,
+      },
+      timeoutMs: 120_000,
+    },
+    readCountedJson<FigmaRawPayload>
+  );
+  const file = normalizeFigmaPayload(payload, nodeId);
+
+  options.onFetched?.({ bytes, nodes: countNodes(file.document), depth: options.depth });
+  return file;
+}
+
+// Shallow depths tried when locating a component - top-level frames first, then frames inside sections/groups
+const LOCATE_DEPTHS = [2, 4];
+
+// Deep enough to list the frames of every page, including frames inside sections
+export const TOP_LEVEL_DEPTH = LOCATE_DEPTHS[LOCATE_DEPTHS.length - 1];
+
+// Copies only the ancestors of nodeId, so the original tree can be shared by concurrent grafts
+function replaceNode(parent: FigmaNode, nodeId: string, replacement: FigmaNode): FigmaNode | null {
+  if (parent.id === nodeId) return replacement;
+  const children = parent.children || [];
+  for (let i = 0; i < children.length; i++) {
+    const replaced = replaceNode(children[i], nodeId, replacement);
+    if (replaced) {
+      return { ...parent, children: children.map((child, j) => (j === i ? replaced : child)) };
+    }
+  }
+  return null;
+}
+
+// A shallow file with one node swapped for its full subtree, so sibling frames (tablet/mobile variants,
+// prototype targets) stay visible. The shallow file is not modified.
+export function graftSubtree(shallow: FigmaFileResponse, subtree: FigmaFileResponse): FigmaFileResponse {
+  const document = replaceNode(shallow.document, subtree.document.id, subtree.document);
+  if (!document || shallow.document.id === subtree.document.id) {
+    return subtree;
+  }
+  return {
+    ...shallow,
+    document,
+    components: { ...shallow.components, ...subtree.components },
+    componentSets: { ...shallow.componentSets, ...subtree.componentSets },
+    styles: { ...shallow.styles, ...subtree.styles },
+  };
+}
+
+// Large files in stages: walk shallow trees to find the component by name, then download only its subtree.
+// The subtree is grafted into the shallow tree so sibling frames (tablet/mobile variants, prototype targets) stay visible.
+// Returns null when no frame matches the name within the shallow depths.
+export async function getFigmaComponentFile(
+  token: string,
+  fileKey: string,
+  componentName: string,
+  scopeNodeId?: string, // page or section to search instead of the whole document
+  options: Omit<FigmaFetchOptions, "depth"> = {}
+): Promise<FigmaFileResponse | null> {
+  for (const depth of LOCATE_DEPTHS) {
+    const shallow = await getFigmaFile(token, fileKey, scopeNodeId, { ...options, depth });
+    const match = findComponentByName(shallow.document, componentName);
+    if (!match) continue;
+
+    const subtree = await getFigmaFile(token, fileKey, match.id, options);
+    return graftSubtree(shallow, subtree);
+  }
+  return null;
+}
 
-  const response = await fetch(url, {
+// Current version of a file - depth=1 keeps the response down to the page list
+export async function getFigmaFileVersion(
+  token: string,
+  fileKey: string
+): Promise<{ version: string; lastModified: string }> {
+  const data = await httpJson<FigmaRawPayload>(`https://api.figma.com/v1/files/${fileKey}?depth=1`, {
+    service: "Figma",
     headers: {
       "X-Figma-Token": token,
     },
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Figma API error: ${response.status} - ${error}`);
+  return { version: data.version || "", lastModified: data.lastModified || "" };
+}
+
+// client_meta is a canvas point/region, or an offset within a frame (node_id)
+export interface FigmaComment {
+  id: string;
+  message: string;
+  created_at: string;
+  resolved_at: string | null;
+  parent_id: string;
+  user: { handle: string };
+  client_meta: { x?: number; y?: number; node_id?: string; node_offset?: { x: number; y: number } } | null;
+}
+
+export interface DesignerComment {
+  author: string;
+  message: string;
+  createdAt: string;
+  resolved: boolean;
+  anchor?: string; // name of the element the comment is pinned to
+  isReply: boolean;
+}
+
+export async function getFigmaComments(token: string, fileKey: string): Promise<FigmaComment[]> {
+  const data = await httpJson<{ comments: FigmaComment[] }>(`https://api.figma.com/v1/files/${fileKey}/comments`, {
+    service: "Figma",
+    headers: {
+      "X-Figma-Token": token,
+    },
+  });
+  return data.comments;
+}
+
+// Comments pinned to the node or one of its layers, or placed inside its bounding box - replies follow their thread
+export function filterComponentComments(comments: FigmaComment[], node: FigmaNode): DesignerComment[] {
+  const names = new Map<string, string>();
+  function collect(n: FigmaNode): void {
+    names.set(n.id, n.name);
+    n.children?.forEach(collect);
   }
+  collect(node);
+
+  const box = node.absoluteBoundingBox;
+  const anchorOf = (comment: FigmaComment): string | undefined | null => {
+    const meta = comment.client_meta;
+    if (meta?.node_id) {
+      return names.has(meta.node_id) ? names.get(meta.node_id) : null;
+    }
+    if (box && meta?.x !== undefined && meta.y !== undefined) {
+      const inside = meta.x >= box.x && meta.x <= box.x + box.width && meta.y >= box.y && meta.y <= box.y + box.height;
+      return inside ? undefined : null;
+    }
+    return null;
+  };
+
+  const result: DesignerComment[] = [];
+  // The API returns newest first - oldest first reads as a conversation
+  const ordered = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  for (const comment of ordered) {
+    if (comment.parent_id) continue;
+    const anchor = anchorOf(comment);
+    if (anchor === null) continue;
+    result.push({
+      author: comment.user.handle,
+      message: comment.message,
+      createdAt: comment.created_at,
+      resolved: Boolean(comment.resolved_at),
+      anchor: anchor && anchor !== node.name ? anchor : undefined,
+      isReply: false,
+    });
+    for (const reply of ordered.filter((c) => c.parent_id === comment.id)) {
+      result.push({
+        author: reply.user.handle,
+        message: reply.message,
+        createdAt: reply.created_at,
+        resolved: Boolean(comment.resolved_at),
+        isReply: true,
+      });
+    }
+  }
+
+  return result;
+}
 
-  const data = await response.json();
+export interface FigmaFileVersion {
+  id: string;
+  created_at: string;
+  label: string | null;
+  description: string | null;
+  user: { handle: string };
+}
+
+// Version history, newest first - includes autosaves as well as named versions
+export async function getFigmaFileVersions(token: string, fileKey: string): Promise<FigmaFileVersion[]> {
+  const data = await httpJson<{ versions: FigmaFileVersion[] }>(`https://api.figma.com/v1/files/${fileKey}/versions`, {
+    service: "Figma",
+    headers: {
+      "X-Figma-Token": token,
+    },
+  });
+  return data.versions;
+}
+
+// Raw payload as returned by /v1/files or /v1/files/:key/nodes
+interface FigmaRawPayload {
+  name?: string;
+  version?: string;
+  lastModified?: string;
+  document?: FigmaNode;
+  components?: FigmaFileResponse["components"];
+  componentSets?: FigmaFileResponse["componentSets"];
+  styles?: FigmaFileResponse["styles"];
+  nodes?: Record<string, {
+    document: FigmaNode;
+    components?: FigmaFileResponse["components"];
+    componentSets?: FigmaFileResponse["componentSets"];
+    styles?: FigmaFileResponse["styles"];
+  } | null>;
+}
 
+// Restructure a /v1/files or /v1/files/:key/nodes payload into a FigmaFileResponse
+export function normalizeFigmaPayload(data: FigmaRawPayload, nodeId?: string): FigmaFileResponse {
   // If we fetched a specific node, restructure the response
-  if (nodeId && data.nodes) {
-    const nodeData = data.nodes[nodeId];
-    if (nodeData) {
+  if (data.nodes) {
+    const entries = Object.entries(data.nodes).filter(([, n]) => n && n.document);
+    // Node ids appear as "1:2" in payloads and "1-2" in URLs
+    const match = nodeId ? entries.find(([id]) => id.replace(/-/g, ":") === nodeId.replace(/-/g, ":")) : entries[0];
+    if (nodeId && !match) {
+      throw new Error(`Node ${nodeId} is not in the Figma payload (it has ${entries.map(([id]) => id).join(", ") || "no nodes"})`);
+    }
+    if (match && match[1]) {
       return {
-        name: data.name,
-        document: nodeData.document,
-        components: nodeData.components || {},
+        name: data.name || match[1].document.name,
+        document: match[1].document,
+        components: match[1].components || {},
+        componentSets: match[1].componentSets || {},
+        styles: match[1].styles || {},
+        version: data.version,
+        lastModified: data.lastModified,
       };
     }
   }
 
-  return data;
+  if (!data.document) {
+    throw new Error("Figma payload has no document or nodes");
+  }
+
+  return {
+    name: data.name || data.document.name,
+    document: data.document,
+    components: data.components || {},
+    componentSets: data.componentSets || {},
+    styles: data.styles || {},
+    version: data.version,
+    lastModified: data.lastModified,
+  };
+}
+
+// Parse a saved Figma JSON export (/v1/files or /v1/files/:key/nodes) for offline runs
+export function parseFigmaExport(json: string, nodeId?: string): FigmaFileResponse {
+  let data: FigmaRawPayload;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Figma export is not valid JSON");
+  }
+
+  if (!data || typeof data !== "object" || (!data.document && !data.nodes)) {
+    throw new Error("Figma export must be a /v1/files or /v1/files/:key/nodes response");
+  }
+
+  return normalizeFigmaPayload(data, nodeId);
+}
+
+// Load a saved Figma JSON export from FIGMA_EXPORT_DIR (defaults to ./figma-exports)
+export async function loadFigmaExportFile(fileName: string, nodeId?: string): Promise<FigmaFileResponse> {
+  const exportDir = path.resolve(process.env.FIGMA_EXPORT_DIR || "figma-exports");
+  const filePath = path.resolve(exportDir, fileName);
+
+  // Only allow files inside the export directory
+  if (!filePath.startsWith(exportDir + path.sep)) {
+    throw new Error(`Figma export file must be inside ${exportDir}`);
+  }
+
+  let json: string;
+  try {
+    json = await readFile(filePath, "utf-8");
+  } catch {
+    throw new Error(`Figma export file not found: ${fileName}`);
+  }
+
+  return parseFigmaExport(json, nodeId);
 }
 
 export async function getFigmaImages(
@@ -189,18 +1222,125 @@ export async function getFigmaImages(
   const ids = nodeIds.join(",");
   const url = `https://api.figma.com/v1/images/${fileKey}?ids=${encodeURIComponent(ids)}&format=${format}&scale=${scale}`;
 
-  const response = await fetch(url, {
+  // Rendering is done on demand by Figma, large frames can take a while
+  return httpJson<FigmaImageResponse>(url, {
+    service: "Figma Images",
+    headers: {
+      "X-Figma-Token": token,
+    },
+    timeoutMs: 60_000,
+  });
+}
+
+export async function getFigmaImageFills(
+  token: string,
+  fileKey: string
+): Promise<FigmaImageFillsResponse> {
+  return httpJson<FigmaImageFillsResponse>(`https://api.figma.com/v1/files/${fileKey}/images`, {
+    service: "Figma Images",
     headers: {
       "X-Figma-Token": token,
     },
   });
+}
+
+// Local variables - only available on Enterprise plans, callers should treat failures as "no variables"
+export async function getFigmaLocalVariables(
+  token: string,
+  fileKey: string
+): Promise<FigmaVariablesResponse> {
+  // Non-Enterprise plans always get a 403 - do not spend retries on it
+  return httpJson<FigmaVariablesResponse>(`https://api.figma.com/v1/files/${fileKey}/variables/local`, {
+    service: "Figma Variables",
+    headers: {
+      "X-Figma-Token": token,
+    },
+    maxRetries: 1,
+  });
+}
+
+// "Theme=Dark, Size=Large" -> { Theme: "Dark", Size: "Large" }
+export function parseVariantName(name: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of name.split(",")) {
+    const [key, ...rest] = part.split("=");
+    if (rest.length > 0 && key.trim()) {
+      values[key.trim()] = rest.join("=").trim();
+    }
+  }
+  return values;
+}
+
+// Non-variant property names carry a "#id" suffix, e.g. "Show Icon#12:0"
+function cleanPropertyName(name: string): string {
+  return name.replace(/#[^#]*$/, "").trim();
+}
+
+const PROPERTY_TYPES: Record<FigmaComponentPropertyType, ComponentProperty["type"]> = {
+  VARIANT: "variant",
+  BOOLEAN: "boolean",
+  INSTANCE_SWAP: "instance-swap",
+  TEXT: "text",
+};
+
+export function parseComponentProperties(
+  node: FigmaNode,
+  components: FigmaFileResponse["components"] = {}
+): ComponentProperty[] {
+  const properties: ComponentProperty[] = [];
+  const componentName = (id: string) => components[id]?.name || id;
+
+  if (node.componentPropertyDefinitions) {
+    for (const [name, def] of Object.entries(node.componentPropertyDefinitions)) {
+      const property: ComponentProperty = { name: cleanPropertyName(name), type: PROPERTY_TYPES[def.type] };
+      if (def.type === "VARIANT" && def.variantOptions) {
+        property.options = def.variantOptions;
+      }
+      if (def.type === "INSTANCE_SWAP") {
+        property.defaultValue = componentName(String(def.defaultValue));
+      } else {
+        property.defaultValue = String(def.defaultValue);
+      }
+      properties.push(property);
+    }
+    return properties;
+  }
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Figma Images API error: ${response.status} - ${error}`);
+  // Instances only carry the current values
+  if (node.componentProperties) {
+    for (const [name, prop] of Object.entries(node.componentProperties)) {
+      properties.push({
+        name: cleanPropertyName(name),
+        type: PROPERTY_TYPES[prop.type],
+        defaultValue: prop.type === "INSTANCE_SWAP" ? componentName(String(prop.value)) : String(prop.value),
+      });
+    }
+    return properties;
+  }
+
+  // Older files: infer variant axes from the variant names of a COMPONENT_SET
+  if (node.type === "COMPONENT_SET" && node.children) {
+    const axes = new Map<string, string[]>();
+    for (const child of node.children) {
+      for (const [axis, value] of Object.entries(parseVariantName(child.name))) {
+        const options = axes.get(axis) || [];
+        if (!options.includes(value)) options.push(value);
+        axes.set(axis, options);
+      }
+    }
+    for (const [axis, options] of axes) {
+      properties.push({ name: axis, type: "variant", options, defaultValue: options[0] });
+    }
   }
 
-  return response.json();
+  return properties;
+}
+
+// Variant axes that describe breakpoints rather than author choices
+const BREAKPOINT_AXIS_PATTERN = /^(breakpoint|device|viewport|screen|platform)s?$/i;
+
+export function isBreakpointAxis(name: string): boolean {
+  return BREAKPOINT_AXIS_PATTERN.test(name.trim());
 }
 
 // Find a specific component by name within a node tree
@@ -229,6 +1369,47 @@ export function findComponentByName(node: FigmaNode, componentName: string): Fig
   return null;
 }
 
+export function findNodeById(node: FigmaNode, nodeId: string): FigmaNode | null {
+  if (node.id === nodeId) {
+    return node;
+  }
+  for (const child of node.children || []) {
+    const found = findNodeById(child, nodeId);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+// Frames/components that can be documented on their own (batch mode)
+export interface TopLevelComponent {
+  id: string;
+  name: string;
+  type: string;
+  page?: string;
+}
+
+const TOP_LEVEL_TYPES = ["FRAME", "COMPONENT", "COMPONENT_SET", "INSTANCE"];
+
+// List the top-level frames/components of a document, page (CANVAS), section or COMPONENT_SET
+export function listTopLevelComponents(node: FigmaNode, page?: string): TopLevelComponent[] {
+  const components: TopLevelComponent[] = [];
+
+  for (const child of node.children || []) {
+    if (child.type === "CANVAS") {
+      components.push(...listTopLevelComponents(child, child.name));
+    } else if (child.type === "SECTION") {
+      // Sections only group frames on the canvas
+      components.push(...listTopLevelComponents(child, page));
+    } else if (TOP_LEVEL_TYPES.includes(child.type)) {
+      components.push({ id: child.id, name: child.name, type: child.type, page });
+    }
+  }
+
+  return components;
+}
+
 // Find the best node for screenshot - looks for exact component match first
 export function findBestNodeForScreenshot(
   document: FigmaNode,
@@ -266,11 +1447,26 @@ export function findBestNodeForScreenshot(
 
 export function extractComponentData(
   node: FigmaNode,
-  componentName: string
+  componentName: string,
+  tokenSources: DesignTokenSources = EMPTY_TOKEN_SOURCES,
+  components: FigmaFileResponse["components"] = {},
+  document: FigmaNode = node, // wider tree used to name prototype destinations outside the component
+  componentSets: FigmaFileResponse["componentSets"] = {}
 ): ExtractedComponent {
   // Try to find the exact component within the node
   const exactComponent = findComponentByName(node, componentName);
   const targetNode = exactComponent || node;
+  const ctx: ExtractionContext = {
+    sources: tokenSources,
+    nodeNames: buildNodeNameIndex(document, components),
+    components,
+    componentSets,
+    shared: new Map(),
+    pruned: { hidden: 0, transparent: 0, masks: 0, vectorParts: 0 },
+  };
+  const interactions = extractInteractions(targetNode, ctx.nodeNames);
+  const fillColor = extractFillColor(targetNode);
+  const children = extractChildren(targetNode, ctx, fillColor);
 
   return {
     name: componentName || targetNode.name,
@@ -279,11 +1475,82 @@ export function extractComponentData(
       width: Math.round(targetNode.absoluteBoundingBox?.width || 0),
       height: Math.round(targetNode.absoluteBoundingBox?.height || 0),
     },
-    children: targetNode.children?.map(extractElement) || [],
+    children,
     nodeId: targetNode.id, // Store for image export
+    fillColor,
+    layout: extractLayout(targetNode),
+    tokens: extractTokens(targetNode, tokenSources),
+    properties: parseComponentProperties(targetNode, components),
+    interactions: interactions.length > 0 ? interactions : undefined,
+    sharedComponents: ctx.shared.size > 0 ? [...ctx.shared.values()] : undefined,
+    pruned: ctx.pruned,
   };
 }
 
+// Human-readable summary of an auto-layout, e.g. "horizontal, gap 16px, padding 24px 32px"
+export function describeLayout(layout: ElementLayout): string {
+  const { top, right, bottom, left } = layout.padding;
+  const padding =
+    top === bottom && left === right
+      ? top === left ? `${top}px` : `${top}px ${right}px`
+      : `${top}px ${right}px ${bottom}px ${left}px`;
+
+  const parts = [
+    `${layout.direction}${layout.wrap ? " (wrap)" : ""}`,
+    `gap ${layout.itemSpacing}px`,
+    `padding ${padding}`,
+    `align ${layout.primaryAxisAlign.toLowerCase()}/${layout.counterAxisAlign.toLowerCase()}`,
+  ];
+  if (layout.counterAxisSpacing !== undefined) {
+    parts.push(`row gap ${layout.counterAxisSpacing}px`);
+  }
+  return parts.join(", ");
+}
+
+export function describeCornerRadius(radius: number | [number, number, number, number]): string {
+  return Array.isArray(radius) ? radius.map((r) => `${r}px`).join(" ") : `${radius}px`;
+}
+
+// Layout spec rows for the FSD - the component itself plus every auto-layout / constrained element
+export interface LayoutSpec {
+  element: string;
+  layout: string;
+  constraints: string;
+  cornerRadius: string;
+}
+
+const MAX_LAYOUT_SPECS = 40;
+
+export function buildLayoutSpecs(component: ExtractedComponent): LayoutSpec[] {
+  const specs: LayoutSpec[] = [];
+
+  if (component.layout) {
+    specs.push({
+      element: component.name,
+      layout: describeLayout(component.layout),
+      constraints: "",
+      cornerRadius: "",
+    });
+  }
+
+  function traverse(el: ExtractedElement): void {
+    if (specs.length >= MAX_LAYOUT_SPECS) return;
+    if (el.layout || el.constraints || el.cornerRadius) {
+      specs.push({
+        element: el.name,
+        layout: el.layout ? describeLayout(el.layout) : "",
+        constraints: el.constraints ? `${el.constraints.horizontal.toLowerCase()} / ${el.constraints.vertical.toLowerCase()}` : "",
+        cornerRadius: el.cornerRadius ? describeCornerRadius(el.cornerRadius) : "",
+      });
+    }
+    el.children?.forEach(traverse);
+  }
+
+  component.children.forEach(traverse);
+  component.sharedComponents?.forEach((shared) => shared.children.forEach(traverse));
+  return specs;
+}
+
 export function flattenElements(elements: ExtractedElement[]): ExtractedElement[] {
   const flat: ExtractedElement[] = [];
 
@@ -299,98 +1566,205 @@ export function flattenElements(elements: ExtractedElement[]): ExtractedElement[
 }
 
 // Find responsive variants (tablet, mobile) of a component
+export type Breakpoint = "desktop" | "tablet" | "mobile";
+
+export interface ResponsiveMatch {
+  nodeId: string;
+  width?: number;
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
 export interface ResponsiveVariants {
   desktop?: string; // node ID
   tablet?: string;
   mobile?: string;
+  matches: Partial<Record<Breakpoint, ResponsiveMatch>>;
+}
+
+// Minimum frame width for each breakpoint - anything narrower than tablet is mobile
+export interface BreakpointTable {
+  desktop: number;
+  tablet: number;
+}
+
+export const DEFAULT_BREAKPOINTS: BreakpointTable = { desktop: 1200, tablet: 768 };
+
+// RESPONSIVE_BREAKPOINTS="1200,768" overrides the desktop and tablet minimum widths
+export function getBreakpointTable(value = process.env.RESPONSIVE_BREAKPOINTS): BreakpointTable {
+  const [desktop, tablet] = (value || "").split(",").map((v) => Number(v.trim()));
+  if (desktop > 0 && tablet > 0 && desktop > tablet) {
+    return { desktop, tablet };
+  }
+  return DEFAULT_BREAKPOINTS;
+}
+
+export function classifyWidth(width: number, breakpoints: BreakpointTable = DEFAULT_BREAKPOINTS): Breakpoint {
+  if (width >= breakpoints.desktop) return "desktop";
+  if (width >= breakpoints.tablet) return "tablet";
+  return "mobile";
+}
+
+// Matched as whole words only, so "Small print" or "Default state" do not count
+const BREAKPOINT_KEYWORDS: Record<Breakpoint, string[]> = {
+  desktop: ["desktop", "lg", "xl", "web"],
+  tablet: ["tablet", "ipad", "md"],
+  mobile: ["mobile", "phone", "sm", "xs", "ios", "android"],
+};
+
+const MIN_VARIANT_CONFIDENCE = 0.6;
+const CANDIDATE_TYPES = ["FRAME", "COMPONENT", "INSTANCE", "COMPONENT_SET"];
+
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Breakpoint named by a Breakpoint=/Device= variant axis or a keyword in the node name
+function breakpointFromName(name: string): { breakpoint: Breakpoint; fromAxis: boolean } | null {
+  const axis = Object.entries(parseVariantName(name)).find(([key]) => isBreakpointAxis(key));
+  const words = nameWords(axis ? axis[1] : name);
+  for (const breakpoint of Object.keys(BREAKPOINT_KEYWORDS) as Breakpoint[]) {
+    if (BREAKPOINT_KEYWORDS[breakpoint].some((keyword) => words.includes(keyword))) {
+      return { breakpoint, fromAxis: Boolean(axis) };
+    }
+  }
+  return null;
+}
+
+function descendantNames(node: FigmaNode, depth = 3): Set<string> {
+  const names = new Set<string>();
+  function collect(n: FigmaNode, level: number): void {
+    if (level > depth) return;
+    for (const child of n.children || []) {
+      names.add(`${child.type}:${child.name.toLowerCase()}`);
+      collect(child, level + 1);
+    }
+  }
+  collect(node, 1);
+  return names;
+}
+
+// 0-1 overlap of child layers - responsive frames usually reuse the desktop layer names
+export function structuralSimilarity(a: FigmaNode, b: FigmaNode): number {
+  const namesA = descendantNames(a);
+  const namesB = descendantNames(b);
+  if (namesA.size === 0 && namesB.size === 0) return 1;
+
+  let shared = 0;
+  namesA.forEach((name) => {
+    if (namesB.has(name)) shared++;
+  });
+  const jaccard = shared / (namesA.size + namesB.size - shared);
+
+  const countA = a.children?.length || 0;
+  const countB = b.children?.length || 0;
+  const countRatio = Math.max(countA, countB) === 0 ? 1 : Math.min(countA, countB) / Math.max(countA, countB);
+
+  return jaccard * 0.7 + countRatio * 0.3;
 }
 
 export function findResponsiveVariants(
   document: FigmaNode,
-  componentName: string
+  componentName: string,
+  breakpoints: BreakpointTable = getBreakpointTable()
 ): ResponsiveVariants {
-  const variants: ResponsiveVariants = {};
-  const nameLower = componentName.toLowerCase();
-
-  // Keywords for each breakpoint
-  const desktopKeywords = ["desktop", "lg", "large", "web", "default"];
-  const tabletKeywords = ["tablet", "ipad", "md", "medium"];
-  const mobileKeywords = ["mobile", "phone", "sm", "small", "ios", "android"];
-
-  function searchNode(node: FigmaNode): void {
-    const nodeName = node.name.toLowerCase();
-
-    // Check if this node is related to our component
-    if (nodeName.includes(nameLower) || nameLower.includes(nodeName.split(" ")[0])) {
-      // Check for desktop
-      if (!variants.desktop) {
-        for (const keyword of desktopKeywords) {
-          if (nodeName.includes(keyword)) {
-            variants.desktop = node.id;
-            break;
-          }
-        }
-      }
+  const variants: ResponsiveVariants = { matches: {} };
+  const componentWords = nameWords(componentName);
 
-      // Check for tablet
-      if (!variants.tablet) {
-        for (const keyword of tabletKeywords) {
-          if (nodeName.includes(keyword)) {
-            variants.tablet = node.id;
-            break;
-          }
-        }
+  // Frames that could be a breakpoint of this component - variant children, or frames sharing a word with its name
+  const candidates: FigmaNode[] = [];
+  if (document.type === "COMPONENT_SET" && document.children) {
+    candidates.push(...document.children);
+  } else {
+    const searchNode = (node: FigmaNode): void => {
+      const words = nameWords(node.name);
+      if (
+        CANDIDATE_TYPES.includes(node.type) &&
+        node.id !== document.id &&
+        componentWords.some((word) => words.includes(word))
+      ) {
+        // A breakpoint frame does not contain other breakpoints - skip its layers
+        candidates.push(node);
+        return;
       }
+      node.children?.forEach(searchNode);
+    };
+    searchNode(document);
+  }
 
-      // Check for mobile
-      if (!variants.mobile) {
-        for (const keyword of mobileKeywords) {
-          if (nodeName.includes(keyword)) {
-            variants.mobile = node.id;
-            break;
-          }
-        }
-      }
-    }
+  // Desktop reference: a candidate named desktop, else the widest desktop-width one, else the root itself
+  const widthOf = (node: FigmaNode) => node.absoluteBoundingBox?.width;
+  const desktopCandidates = candidates.filter((c) => {
+    const width = widthOf(c);
+    return width !== undefined ? classifyWidth(width, breakpoints) === "desktop" : breakpointFromName(c.name)?.breakpoint === "desktop";
+  });
+  const desktop =
+    desktopCandidates.find((c) => breakpointFromName(c.name)?.breakpoint === "desktop") ||
+    [...desktopCandidates].sort((a, b) => (widthOf(b) || 0) - (widthOf(a) || 0))[0] ||
+    (document.type === "COMPONENT_SET" ? document.children?.[0] : document);
 
-    // Search children
-    if (node.children) {
-      for (const child of node.children) {
-        searchNode(child);
-      }
-    }
+  if (desktop?.id) {
+    const width = widthOf(desktop);
+    variants.desktop = desktop.id;
+    variants.matches.desktop = {
+      nodeId: desktop.id,
+      width,
+      confidence: desktop === document ? 1 : width !== undefined && width >= breakpoints.desktop ? 0.9 : 0.6,
+      reasons: [desktop === document ? "selected node" : width ? `${Math.round(width)}px wide` : "named desktop"],
+    };
   }
 
-  // Handle COMPONENT_SET which typically contains variants
-  if (document.type === "COMPONENT_SET" && document.children) {
-    for (const child of document.children) {
-      const childName = child.name.toLowerCase();
-
-      // Check desktop
-      if (!variants.desktop) {
-        if (desktopKeywords.some(k => childName.includes(k)) ||
-            (!tabletKeywords.some(k => childName.includes(k)) && !mobileKeywords.some(k => childName.includes(k)))) {
-          variants.desktop = child.id;
-        }
+  for (const breakpoint of ["tablet", "mobile"] as const) {
+    let best: ResponsiveMatch | null = null;
+
+    for (const candidate of candidates) {
+      if (candidate.id === variants.desktop) continue;
+
+      const width = widthOf(candidate);
+      const named = breakpointFromName(candidate.name);
+      const reasons: string[] = [];
+      let confidence = 0;
+
+      if (width !== undefined) {
+        // Width is the primary signal - a frame of the wrong width is never a match
+        if (classifyWidth(width, breakpoints) !== breakpoint) continue;
+        confidence += 0.5;
+        reasons.push(`${Math.round(width)}px wide`);
       }
 
-      // Check tablet
-      if (!variants.tablet && tabletKeywords.some(k => childName.includes(k))) {
-        variants.tablet = child.id;
+      if (named?.breakpoint === breakpoint) {
+        // Without a width the name has to carry the match on its own
+        confidence += (named.fromAxis ? 0.3 : 0.2) + (width === undefined ? 0.2 : 0);
+        reasons.push(named.fromAxis ? "breakpoint variant" : "name");
+      } else if (width === undefined) {
+        continue;
+      } else if (named) {
+        // Name says another breakpoint - trust the width but lower the score
+        confidence -= 0.2;
       }
 
-      // Check mobile
-      if (!variants.mobile && mobileKeywords.some(k => childName.includes(k))) {
-        variants.mobile = child.id;
+      if (desktop && desktop.id !== candidate.id) {
+        const similarity = structuralSimilarity(desktop, candidate);
+        confidence += similarity * 0.3;
+        if (similarity >= 0.5) {
+          reasons.push(`${Math.round(similarity * 100)}% layer match`);
+        }
+      }
+
+      confidence = Math.min(Math.max(confidence, 0), 1);
+      if (!best || confidence > best.confidence) {
+        best = { nodeId: candidate.id, width, confidence, reasons };
       }
     }
-  } else {
-    searchNode(document);
-  }
 
-  // If no desktop variant found but we have the main component, use it
-  if (!variants.desktop && document.id) {
-    variants.desktop = document.id;
+    if (best && best.confidence >= MIN_VARIANT_CONFIDENCE) {
+      variants[breakpoint] = best.nodeId;
+      variants.matches[breakpoint] = best;
+    }
   }
 
   return variants;
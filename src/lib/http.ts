@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Shared HTTP client for Figma, Jira and Confluence: timeouts, retry-after aware backoff and typed errors
+
+export type HttpErrorCode = "auth" | "not_found" | "rate_limited" | "validation" | "server" | "timeout" | "network";
+
+export class HttpError extends Error {
+  readonly code: HttpErrorCode;
+  readonly service: string;
+  readonly status?: number;
+  readonly body?: string;
+
+  constructor(code: HttpErrorCode, service: string, message: string, status?: number, body?: string) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.service = service;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// 401/403 - bad or missing token, or no access to the file/project
+export class AuthError extends HttpError {
+  constructor(service: string, status: number, body: string) {
+    super("auth", service, `${service} API error: ${status} - ${body}`, status, body);
+    this.name = "AuthError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(service: string, body: string) {
+    super("not_found", service, `${service} API error: 404 - ${body}`, 404, body);
+    this.name = "NotFoundError";
+  }
+}
+
+export class RateLimitError extends HttpError {
+  readonly retryAfterMs?: number;
+
+  constructor(service: string, body: string, retryAfterMs?: number) {
+    super("rate_limited", service, `${service} API error: 429 - ${body}`, 429, body);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 400/422 - the request itself is wrong, retrying will not help
+export class ValidationError extends HttpError {
+  constructor(service: string, status: number, body: string) {
+    super("validation", service, `${service} API error: ${status} - ${body}`, status, body);
+    this.name = "ValidationError";
+  }
+}
+
+export class TimeoutError extends HttpError {
+  constructor(service: string, timeoutMs: number) {
+    super("timeout", service, `${service} API request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "TimeoutError";
+  }
+}
+
+function createHttpError(service: string, status: number, body: string, retryAfterMs?: number): HttpError {
+  if (status === 401 || status === 403) return new AuthError(service, status, body);
+  if (status === 404) return new NotFoundError(service, body);
+  if (status === 429) return new RateLimitError(service, body, retryAfterMs);
+  if (status === 400 || status === 422) return new ValidationError(service, status, body);
+  return new HttpError("server", service, `${service} API error: ${status} - ${body}`, status, body);
+}
+
+export interface RetryEvent {
+  service: string;
+  attempt: number; // the attempt that failed, 1-based
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+type RetryListener = (event: RetryEvent) => void;
+
+// Lets a route receive retry notifications for every request made inside `fn`, without threading callbacks
+const retryListenerStorage = new AsyncLocalStorage<RetryListener>();
+
+export function withRetryListener<T>(listener: RetryListener, fn: () => Promise<T>): Promise<T> {
+  return retryListenerStorage.run(listener, fn);
+}
+
+export function describeRetry(event: RetryEvent): string {
+  return `${event.service} ${event.reason} - retrying in ${Math.ceil(event.delayMs / 1000)}s (attempt ${event.attempt + 1}/${event.maxAttempts})`;
+}
+
+export interface HttpRequestOptions extends RequestInit {
+  service: string; // used in error messages, e.g. "Figma", "Jira"
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Safe to resend after a timeout or network error. Defaults to true for GET only,
+  // so a POST that may have reached the server is not duplicated.
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+// Give up instead of waiting when the server asks for a longer pause than this
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return exponential + Math.floor(Math.random() * 250);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// `read` consumes the body inside the attempt, so the timeout also covers a stalled download and the read is retried with it
+export async function httpRequest<T>(
+  url: string,
+  options: HttpRequestOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const {
+    service,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    idempotent = !options.method || options.method.toUpperCase() === "GET",
+    ...init
+  } = options;
+  const maxAttempts = maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: HttpError;
+    let retryable: boolean;
+    let delayMs: number | undefined;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok) {
+        return await read(response);
+      }
+
+      const body = await response.text();
+      delayMs = parseRetryAfter(response.headers.get("retry-after"));
+      error = createHttpError(service, response.status, body, delayMs);
+      // 429 and 503 mean the request was not processed, so even a POST is safe to resend
+      retryable =
+        response.status === 429 ||
+        response.status === 503 ||
+        (idempotent && (response.status === 500 || response.status === 502 || response.status === 504));
+    } catch (e) {
+      if (e instanceof SyntaxError && !controller.signal.aborted) {
+        // A complete but malformed body - resending will not fix it
+        throw new HttpError("server", service, `${service} API returned an invalid response: ${e.message}`);
+      }
+      error = controller.signal.aborted
+        ? new TimeoutError(service, timeoutMs)
+        : new HttpError("network", service, `${service} API request failed: ${e instanceof Error ? e.message : String(e)}`);
+      retryable = idempotent;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!retryable || attempt >= maxAttempts) {
+      throw error;
+    }
+
+    const delay = delayMs ?? backoffDelay(attempt);
+    if (delay > MAX_RETRY_AFTER_MS) {
+      throw error;
+    }
+
+    retryListenerStorage.getStore()?.({
+      service,
+      attempt,
+      maxAttempts,
+      delayMs: delay,
+      reason: error.status ? `returned ${error.status}` : error.code === "timeout" ? "timed out" : "request failed",
+    });
+    await sleep(delay);
+  }
+}
+
+export async function httpJson<T>(url: string, options: HttpRequestOptions): Promise<T> {
+  return httpRequest(url, options, (response) => response.json() as Promise<T>);
+}
@@ -1,3 +1,5 @@
+import { httpJson } from "./http";
+
 const ATLASSIAN_BASE_URL = "https://horizontal.atlassian.net";
 
 interface JiraAuth {
@@ -11,6 +13,13 @@ interface CreateIssueResponse {
   self: string;
 }
 
+// Atlassian Document Format node - paragraphs, headings, lists
+type AdfNode = Record<string, unknown>;
+
+function adfParagraph(text: string): AdfNode {
+  return { type: "paragraph", content: [{ type: "text", text }] };
+}
+
 function getAuthHeader(auth: JiraAuth): string {
   return `Basic ${Buffer.from(`${auth.email}:${auth.token}`).toString("base64")}`;
 }
@@ -27,18 +36,16 @@ async function getCurrentUserAccountId(auth: JiraAuth): Promise<string | null> {
   }
 
   try {
-    const response = await fetch(`${ATLASSIAN_BASE_URL}/rest/api/3/myself`, {
+    const data = await httpJson<{ accountId: string }>(`${ATLASSIAN_BASE_URL}/rest/api/3/myself`, {
+      service: "Jira",
       headers: {
         Authorization: getAuthHeader(auth),
         Accept: "application/json",
       },
     });
-    if (response.ok) {
-      const data = await response.json();
-      // Cache the result
-      accountIdCache.set(cacheKey, data.accountId);
-      return data.accountId;
-    }
+    // Cache the result
+    accountIdCache.set(cacheKey, data.accountId);
+    return data.accountId;
   } catch (e) {
     console.error("Failed to get current user:", e);
   }
@@ -50,7 +57,7 @@ export async function createJiraIssue(
   projectKey: string,
   issueType: string,
   summary: string,
-  description: string,
+  description: string | AdfNode[], // plain text becomes one paragraph
   epicKey?: string
 ): Promise<CreateIssueResponse> {
   // Get current user's account ID for auto-assignment
@@ -62,12 +69,7 @@ export async function createJiraIssue(
     description: {
       type: "doc",
       version: 1,
-      content: [
-        {
-          type: "paragraph",
-          content: [{ type: "text", text: description }],
-        },
-      ],
+      content: typeof description === "string" ? [adfParagraph(description)] : description,
     },
     issuetype: { name: issueType },
   };
@@ -82,7 +84,8 @@ export async function createJiraIssue(
     fields.parent = { key: epicKey };
   }
 
-  const response = await fetch(`${ATLASSIAN_BASE_URL}/rest/api/3/issue`, {
+  return httpJson<CreateIssueResponse>(`${ATLASSIAN_BASE_URL}/rest/api/3/issue`, {
+    service: "Jira",
     method: "POST",
     headers: {
       Authorization: getAuthHeader(auth),
@@ -91,13 +94,25 @@ export async function createJiraIssue(
     },
     body: JSON.stringify({ fields }),
   });
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Jira API error: ${response.status} - ${error}`);
-  }
+// Plain-text comment, one ADF paragraph per line
+export async function addJiraComment(auth: JiraAuth, issueKey: string, text: string): Promise<void> {
+  const content = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map(adfParagraph);
 
-  return response.json();
+  await httpJson<{ id: string }>(`${ATLASSIAN_BASE_URL}/rest/api/3/issue/${encodeURIComponent(issueKey)}/comment`, {
+    service: "Jira",
+    method: "POST",
+    headers: {
+      Authorization: getAuthHeader(auth),
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ body: { type: "doc", version: 1, content } }),
+  });
 }
 
 export async function createEpic(
@@ -115,17 +130,23 @@ export interface StoryDefinition {
   acceptanceCriteria: string[];
 }
 
+// Acceptance criteria become a numbered list; reference lines (Figma, FSD) follow as paragraphs
 export async function createStory(
   auth: JiraAuth,
   projectKey: string,
   epicKey: string,
-  story: StoryDefinition
+  story: StoryDefinition,
+  references: string[] = []
 ): Promise<CreateIssueResponse> {
-  const acText = story.acceptanceCriteria
-    .map((ac, i) => `${i + 1}. ${ac}`)
-    .join("\n");
-
-  const description = `${story.title}\n\nAcceptance Criteria:\n${acText}`;
+  const description: AdfNode[] = [
+    adfParagraph(story.title),
+    { type: "heading", attrs: { level: 3 }, content: [{ type: "text", text: "Acceptance Criteria" }] },
+    {
+      type: "orderedList",
+      content: story.acceptanceCriteria.map((ac) => ({ type: "listItem", content: [adfParagraph(ac)] })),
+    },
+    ...references.map(adfParagraph),
+  ];
 
   return createJiraIssue(auth, projectKey, "Story", story.title, description, epicKey);
 }
@@ -178,7 +199,8 @@ export async function createSubTask(
     fields.assignee = { accountId };
   }
 
-  const response = await fetch(`${ATLASSIAN_BASE_URL}/rest/api/3/issue`, {
+  return httpJson<CreateIssueResponse>(`${ATLASSIAN_BASE_URL}/rest/api/3/issue`, {
+    service: "Jira",
     method: "POST",
     headers: {
       Authorization: getAuthHeader(auth),
@@ -187,13 +209,6 @@ export async function createSubTask(
     },
     body: JSON.stringify({ fields }),
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Jira API error: ${response.status} - ${error}`);
-  }
-
-  return response.json();
 }
 
 // Interface for creating component tickets with FED/BED/QA sub-tasks
@@ -318,3 +333,53 @@ export async function createComponentWithSubtasks(
 
   return result;
 }
+
+// Epic with one Story per generated story
+export interface EpicStoriesResult {
+  epic: { key: string; url: string; summary: string };
+  stories: { key: string; url: string; summary: string }[];
+  completedTasks: string[];
+  failedTasks: string[];
+}
+
+export async function createEpicWithStories(
+  auth: JiraAuth,
+  projectKey: string,
+  componentName: string,
+  epicDescription: string,
+  stories: StoryDefinition[],
+  references: string[] = []
+): Promise<EpicStoriesResult> {
+  const result: EpicStoriesResult = {
+    epic: { key: "", url: "", summary: "" },
+    stories: [],
+    completedTasks: [],
+    failedTasks: [],
+  };
+
+  try {
+    const epicResponse = await createEpic(auth, projectKey, componentName, epicDescription);
+    result.epic = {
+      key: epicResponse.key,
+      url: getIssueUrl(epicResponse.key),
+      summary: `[Component] ${componentName}`,
+    };
+    result.completedTasks.push(`Epic: ${epicResponse.key} - ${componentName}`);
+  } catch (error) {
+    result.failedTasks.push(`Epic: ${componentName} - ${error instanceof Error ? error.message : "Unknown error"}`);
+    return result; // Stories need the epic as parent
+  }
+
+  // One at a time, so the stories are numbered in the order they were generated
+  for (const story of stories) {
+    try {
+      const storyResponse = await createStory(auth, projectKey, result.epic.key, story, references);
+      result.stories.push({ key: storyResponse.key, url: getIssueUrl(storyResponse.key), summary: story.title });
+      result.completedTasks.push(`Story: ${storyResponse.key} - ${story.title}`);
+    } catch (error) {
+      result.failedTasks.push(`Story: ${story.title} - ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  return result;
+}
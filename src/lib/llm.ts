@@ -0,0 +1,221 @@
+import OpenAI from "openai";
+import { httpJson, httpRequest } from "./http";
+
+export type LLMProviderId = "openai" | "anthropic" | "local";
+
+// Provider/model picked for one request - falls back to LLM_PROVIDER and the provider's *_MODEL env var
+export interface LLMSelection {
+  provider?: LLMProviderId;
+  model?: string;
+}
+
+// Image input, e.g. a Figma screenshot export URL
+export interface LLMImage {
+  url: string;
+  label: string; // e.g. "desktop"
+}
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  maxTokens: number;
+  json?: boolean; // the response must be a single JSON object
+  images?: LLMImage[]; // only sent when the model supports vision - see supportsVision
+}
+
+interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  defaultModel: string;
+  modelEnv: string;
+  isConfigured(): boolean;
+  supportsVision(model: string): boolean;
+  missingConfig: string; // shown when the provider is selected but not configured
+  complete(model: string, request: LLMCompletionRequest): Promise<string>;
+}
+
+// Reported by /api/config - never includes keys
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  label: string;
+  configured: boolean;
+  defaultModel: string;
+  vision: boolean; // whether the default model accepts screenshots
+}
+
+const PROVIDER_ORDER: LLMProviderId[] = ["openai", "anthropic", "local"];
+const ANTHROPIC_VERSION = "2023-06-01";
+// Long structured answers can take well over the default HTTP timeout
+const COMPLETION_TIMEOUT_MS = 180_000;
+
+const openAIClients = new Map<string, OpenAI>();
+
+// One client per endpoint - the local provider speaks the same API on another base URL
+function getOpenAIClient(apiKey: string, baseURL?: string): OpenAI {
+  const cacheKey = `${baseURL || "default"}|${apiKey}`;
+  let client = openAIClients.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({ apiKey, baseURL, timeout: COMPLETION_TIMEOUT_MS });
+    openAIClients.set(cacheKey, client);
+  }
+  return client;
+}
+
+// Vision-capable model families by name - LLM_VISION=true/false overrides the guess for custom deployments.
+// o1-mini, o1-preview and o3-mini are text only; o4-mini accepts images.
+const OPENAI_VISION_MODELS = /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1(?!-mini|-preview)|o3(?!-mini)|o4)/i;
+const LOCAL_VISION_MODELS = /llava|vision|bakllava|moondream|minicpm-v|gemma3|qwen2?\.?5?-?vl|pixtral/i;
+
+function visionOverride(): boolean | undefined {
+  const value = process.env.LLM_VISION?.toLowerCase();
+  return value === "true" ? true : value === "false" ? false : undefined;
+}
+
+// Local servers cannot be relied on to download remote URLs - send the image inline instead
+async function toDataUrl(url: string): Promise<string> {
+  return httpRequest(url, { service: "Figma images" }, async (response) => {
+    const type = response.headers.get("content-type") || "image/png";
+    const data = Buffer.from(await response.arrayBuffer()).toString("base64");
+    return `data:${type};base64,${data}`;
+  });
+}
+
+async function completeOpenAICompatible(
+  client: OpenAI,
+  model: string,
+  request: LLMCompletionRequest,
+  imageUrls: string[] = (request.images || []).map((image) => image.url)
+): Promise<string> {
+  const content: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
+    { type: "text", text: request.prompt },
+    ...imageUrls.map((url): OpenAI.Chat.Completions.ChatCompletionContentPartImage => ({ type: "image_url", image_url: { url } })),
+  ];
+  const response = await client.chat.completions.create({
+    model,
+    messages: [{ role: "user", content: imageUrls.length > 0 ? content : request.prompt }],
+    max_tokens: request.maxTokens,
+    response_format: request.json ? { type: "json_object" } : undefined,
+  });
+  return response.choices[0]?.message?.content || "";
+}
+
+// Models without a JSON mode sometimes wrap the object in a code fence or a sentence
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai: {
+    id: "openai",
+    label: "OpenAI",
+    defaultModel: "gpt-4o-mini",
+    modelEnv: "OPENAI_MODEL",
+    isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+    supportsVision: (model) => visionOverride() ?? OPENAI_VISION_MODELS.test(model),
+    missingConfig: "OpenAI API key is not configured. Please add OPENAI_API_KEY to your .env file.",
+    complete: (model, request) => completeOpenAICompatible(getOpenAIClient(process.env.OPENAI_API_KEY!), model, request),
+  },
+  anthropic: {
+    id: "anthropic",
+    label: "Anthropic",
+    defaultModel: "claude-sonnet-4-5",
+    modelEnv: "ANTHROPIC_MODEL",
+    isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY),
+    // Every Claude 3+ model accepts images
+    supportsVision: (model) => visionOverride() ?? !/^claude-(instant|2)/i.test(model),
+    missingConfig: "Anthropic API key is not configured. Please add ANTHROPIC_API_KEY to your .env file.",
+    complete: async (model, request) => {
+      const data = await httpJson<{ content: { type: string; text?: string }[] }>("https://api.anthropic.com/v1/messages", {
+        service: "Anthropic",
+        method: "POST",
+        headers: {
+          "x-api-key": process.env.ANTHROPIC_API_KEY!,
+          "anthropic-version": ANTHROPIC_VERSION,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.maxTokens,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: request.prompt },
+                ...(request.images || []).map((image) => ({ type: "image", source: { type: "url", url: image.url } })),
+              ],
+            },
+          ],
+        }),
+        timeoutMs: COMPLETION_TIMEOUT_MS,
+      });
+      const text = data.content.filter((block) => block.type === "text").map((block) => block.text).join("");
+      return request.json ? extractJsonObject(text) : text;
+    },
+  },
+  // Any OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1) or vLLM (http://localhost:8000/v1)
+  local: {
+    id: "local",
+    label: "Local (OpenAI-compatible)",
+    defaultModel: "llama3.1",
+    modelEnv: "LOCAL_LLM_MODEL",
+    isConfigured: () => Boolean(process.env.LOCAL_LLM_BASE_URL),
+    supportsVision: (model) => visionOverride() ?? LOCAL_VISION_MODELS.test(model),
+    missingConfig: "Local model endpoint is not configured. Please add LOCAL_LLM_BASE_URL to your .env file.",
+    complete: async (model, request) => {
+      // Local servers ignore the key, but the client requires one
+      const client = getOpenAIClient(process.env.LOCAL_LLM_API_KEY || "local", process.env.LOCAL_LLM_BASE_URL);
+      const imageUrls = await Promise.all((request.images || []).map((image) => toDataUrl(image.url)));
+      const text = await completeOpenAICompatible(client, model, request, imageUrls);
+      return request.json ? extractJsonObject(text) : text;
+    },
+  },
+};
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === "string" && PROVIDER_ORDER.includes(value as LLMProviderId);
+}
+
+// LLM_PROVIDER when set, otherwise the first provider with credentials
+export function getDefaultProvider(): LLMProviderId {
+  const fromEnv = process.env.LLM_PROVIDER;
+  if (isLLMProviderId(fromEnv)) {
+    return fromEnv;
+  }
+  return PROVIDER_ORDER.find((id) => PROVIDERS[id].isConfigured()) || "openai";
+}
+
+function getDefaultModel(provider: LLMProvider): string {
+  return process.env[provider.modelEnv] || provider.defaultModel;
+}
+
+export function getProviderInfo(): LLMProviderInfo[] {
+  return PROVIDER_ORDER.map((id) => ({
+    id,
+    label: PROVIDERS[id].label,
+    configured: PROVIDERS[id].isConfigured(),
+    defaultModel: getDefaultModel(PROVIDERS[id]),
+    vision: PROVIDERS[id].supportsVision(getDefaultModel(PROVIDERS[id])),
+  }));
+}
+
+// Error message when the selected provider cannot be used, or null
+export function checkLLMConfigured(selection: LLMSelection = {}): string | null {
+  const provider = PROVIDERS[selection.provider || getDefaultProvider()];
+  return provider.isConfigured() ? null : provider.missingConfig;
+}
+
+export function supportsVision(selection: LLMSelection = {}): boolean {
+  const provider = PROVIDERS[selection.provider || getDefaultProvider()];
+  return provider.supportsVision(selection.model || getDefaultModel(provider));
+}
+
+// Images are dropped for models without vision, so callers can always pass them
+export async function completeText(selection: LLMSelection, request: LLMCompletionRequest): Promise<string> {
+  const provider = PROVIDERS[selection.provider || getDefaultProvider()];
+  if (!provider.isConfigured()) {
+    throw new Error(provider.missingConfig);
+  }
+  const model = selection.model || getDefaultModel(provider);
+  return provider.complete(model, provider.supportsVision(model) ? request : { ...request, images: undefined });
+}
@@ -0,0 +1,380 @@
+import { ExtractedComponent, ExtractedElement, describeLayout, describeGradient, describeEffect, describeInteraction, describePruneStats, isIconElement } from "./figma";
+import type { AIGeneratedContent } from "./claude";
+import { FieldRequirement } from "./confluence";
+import { StoryDefinition } from "./jira";
+import { collectDesignTokens } from "./tokens";
+import { validateAIContent } from "./ai-schema";
+import { CmsProfile, getCmsProfile } from "./cms";
+
+// Name/type roles - shared by the AI prompt summary and the rule-based engine
+export interface ElementRoles {
+  image: boolean;
+  logo: boolean;
+  icon: boolean;
+  link: boolean; // links, buttons, CTAs, navigation
+  group: boolean; // items, cards, columns, rows, lists with children
+}
+
+const IMAGE_NAME = /image|img|photo|banner/i;
+
+export function classifyElement(el: ExtractedElement): ElementRoles {
+  const nameLower = el.name.toLowerCase();
+  return {
+    image: el.type === "RECTANGLE" || el.type === "IMAGE" || IMAGE_NAME.test(nameLower),
+    logo: nameLower.includes("logo"),
+    icon: isIconElement(el),
+    link: ["link", "button", "cta", "nav"].some((word) => nameLower.includes(word)),
+    group: ["item", "card", "column", "row", "list"].some((word) => nameLower.includes(word)) && Boolean(el.children?.length),
+  };
+}
+
+const SINGLE_LINE_MAX = 60;
+const MULTI_LINE_MAX = 200;
+const MIN_REPEAT = 2;
+const MAX_DEPTH = 8;
+const MAX_FIELDS = 60;
+const HEADING_NAME = /title|heading|headline|\bh[1-6]\b/i;
+// Figma's default layer names say nothing about the content
+const GENERIC_NAME = /^(frame|group|rectangle|text|vector|ellipse|instance|component|layer|auto layout)\s*\d*$/i;
+
+const RULES_WARNING = "Drafted by the rule-based engine from layer names, types and text - review field types, requirements and design notes";
+
+interface RuleContext {
+  cms: CmsProfile;
+  sharedIds: Set<string>;
+  fields: FieldRequirement[];
+  texts: { name: string; text: string; required: boolean }[];
+  images: string[];
+  links: { name: string; text?: string; destination?: string }[];
+  lists: { name: string; count: number; item: string; layout?: string }[];
+  hovers: { name: string; interactions: string[] }[];
+  decorative: { name: string; styles: string[] }[];
+  icons: number;
+}
+
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 3)}...` : flat;
+}
+
+// Readable field name - generic layer names fall back to the text they hold
+function fieldName(el: ExtractedElement): string {
+  const name = el.name.trim();
+  if (!GENERIC_NAME.test(name)) {
+    return name;
+  }
+  const text = el.text || firstText(el);
+  return text ? `"${truncate(text, 24)}" Text` : name;
+}
+
+function firstText(el: ExtractedElement): string | undefined {
+  if (el.text) return el.text;
+  for (const child of el.children || []) {
+    const text = firstText(child);
+    if (text) return text;
+  }
+  return undefined;
+}
+
+function hasClick(el: ExtractedElement): boolean {
+  return Boolean(el.interactions?.some((i) => i.trigger === "click"));
+}
+
+function linkDestination(el: ExtractedElement): string | undefined {
+  const interaction = el.interactions?.find((i) => i.action === "navigate" || i.action === "open_url");
+  return interaction?.destination || interaction?.url;
+}
+
+function dimensions(el: ExtractedElement): string {
+  return el.dimensions ? `${el.dimensions.width}x${el.dimensions.height}px` : "";
+}
+
+// Children that share a main component or a layer structure repeat - nav items, cards, columns.
+// Returns the repeated items, or null when the children are all different.
+function findRepeat(el: ExtractedElement): ExtractedElement[] | null {
+  const children = el.children || [];
+  if (children.length < MIN_REPEAT) return null;
+
+  const bySignature = new Map<string, ExtractedElement[]>();
+  for (const child of children) {
+    const signature = child.componentRef
+      ? `instance:${child.componentRef.id}`
+      : `${child.type}:${(child.children || []).map((c) => c.type).join(",")}`;
+    bySignature.set(signature, [...(bySignature.get(signature) || []), child]);
+  }
+  const [largest] = [...bySignature.values()].sort((a, b) => b.length - a.length);
+  // Most children must match - a heading above a list of links is still a list
+  if (largest.length < MIN_REPEAT || largest.length < children.length / 2) return null;
+
+  // Sibling paragraphs or decorative icons are not a list unless the layers say so
+  const item = largest[0];
+  const roles = classifyElement(item);
+  if (item.type === "TEXT" && !roles.link && !classifyElement(el).group) return null;
+  if (roles.icon && !roles.link && !hasClick(item)) return null;
+  return largest;
+}
+
+function textFieldType(text: string, cms: CmsProfile): string {
+  const lines = text.trim().split("\n").length;
+  if (text.length > MULTI_LINE_MAX || lines > 2) return cms.kinds.richText;
+  if (text.length > SINGLE_LINE_MAX || lines > 1) return cms.kinds.multiLine;
+  return cms.kinds.singleLine;
+}
+
+function addField(ctx: RuleContext, field: FieldRequirement): void {
+  if (ctx.fields.length >= MAX_FIELDS) return;
+  // Same-named layers in one datasource get numbered rather than dropped
+  let element = field.element;
+  for (let n = 2; ctx.fields.some((f) => f.element === element && f.dataSource === field.dataSource); n++) {
+    element = `${field.element} ${n}`;
+  }
+  ctx.fields.push({ ...field, element });
+}
+
+function collectFields(el: ExtractedElement, dataSource: string, ctx: RuleContext, depth: number = 0): void {
+  if (depth > MAX_DEPTH) return;
+  const { kinds } = ctx.cms;
+  const roles = classifyElement(el);
+  const name = fieldName(el);
+
+  // Instances of shared components are documented once, below
+  if (el.componentRef && ctx.sharedIds.has(el.componentRef.id)) return;
+
+  if ((el.gradients || el.effects) && ctx.decorative.length < 10) {
+    ctx.decorative.push({ name: el.name, styles: [...(el.gradients || []).map(describeGradient), ...(el.effects || []).map(describeEffect)] });
+  }
+  const hover = el.interactions?.filter((i) => i.trigger === "hover" || i.trigger === "press") || [];
+  if (hover.length > 0) {
+    ctx.hovers.push({ name: el.name, interactions: hover.map(describeInteraction) });
+  }
+
+  const repeat = findRepeat(el);
+  if (repeat) {
+    const item = repeat[0];
+    // "Column 1", "Column 2" describe one item type
+    const itemName = item.componentRef?.name || fieldName(item).replace(/\s*\d+$/, "");
+    const itemSource = `Child item: ${itemName}`;
+    const listIndex = ctx.fields.length;
+    addField(ctx, { element: name, fieldType: kinds.list, required: true, dataSource, display: "", notes: "" });
+    ctx.lists.push({ name, count: repeat.length, item: itemName, layout: el.layout ? describeLayout(el.layout) : undefined });
+
+    // Item fields once, from the first item - a link item stays one link field
+    const itemStart = ctx.fields.length;
+    const itemRoles = classifyElement(item);
+    if (item.children?.length && !itemRoles.link && !itemRoles.logo && !hasClick(item)) {
+      item.children.forEach((child) => collectFields(child, itemSource, ctx, depth + 2));
+    } else {
+      collectFields(item, itemSource, ctx, depth + 1);
+    }
+    const itemFields = ctx.fields.slice(itemStart).filter((f) => f.dataSource === itemSource);
+    if (ctx.fields[listIndex]) {
+      ctx.fields[listIndex].display = `${repeat.length} items in the design${el.layout ? `, ${el.layout.direction.toLowerCase()}` : ""}`;
+      ctx.fields[listIndex].notes = itemFields.length > 0
+        ? `Each ${itemName}: ${itemFields.map((f) => `${f.element} (${f.fieldType})`).join(", ")}`
+        : `Each item is a ${itemName}`;
+    }
+
+    el.children?.filter((child) => !repeat.includes(child)).forEach((child) => collectFields(child, dataSource, ctx, depth + 1));
+    return;
+  }
+
+  if (roles.logo) {
+    addField(ctx, { element: name, fieldType: kinds.image, required: true, dataSource, display: dimensions(el), notes: "Logo - alt text is the brand name" });
+    ctx.images.push(name);
+    if (roles.link || hasClick(el)) {
+      addField(ctx, { element: `${name} Link`, fieldType: kinds.link, required: false, dataSource, display: "Wraps the logo", notes: linkDestination(el) ? `Links to ${linkDestination(el)}` : "Usually the homepage" });
+      ctx.links.push({ name: `${name} Link`, destination: linkDestination(el) });
+    }
+    return;
+  }
+
+  // Icons are exported as SVG assets unless they are the link themselves
+  if (roles.icon && !roles.link && !hasClick(el)) {
+    ctx.icons++;
+    return;
+  }
+
+  if ((roles.link || hasClick(el)) && (el.text || firstText(el) || roles.icon)) {
+    const text = el.text || firstText(el);
+    const destination = linkDestination(el);
+    addField(ctx, {
+      element: name,
+      fieldType: kinds.link,
+      required: false,
+      dataSource,
+      display: [dimensions(el), text ? `label "${truncate(text, 40)}"` : "icon only"].filter(Boolean).join(", "),
+      notes: destination ? `Navigates to ${destination}` : "Link text and target managed together",
+    });
+    ctx.links.push({ name, text, destination });
+    return;
+  }
+
+  const isImage = Boolean(el.imageFills) || (roles.image && !(el.type === "RECTANGLE" && !IMAGE_NAME.test(el.name)));
+  if (isImage) {
+    const isBackground = Boolean(el.children?.length);
+    const imageName = isBackground && GENERIC_NAME.test(el.name.trim()) ? "Background Image" : name;
+    addField(ctx, {
+      element: imageName,
+      fieldType: kinds.image,
+      required: true,
+      dataSource,
+      display: [dimensions(el), isBackground ? "background behind content" : ""].filter(Boolean).join(", "),
+      notes: el.imageFills ? `Scale mode ${el.imageFills[0].scaleMode.toLowerCase()}` : "Placeholder in the design",
+    });
+    ctx.images.push(imageName);
+    if (!isBackground) return;
+  }
+
+  if (el.type === "TEXT" && el.text) {
+    const required = HEADING_NAME.test(el.name) || (el.fontInfo?.size || 0) >= 24;
+    const typeToken = el.tokens?.find((t) => t.property === "text")?.name;
+    addField(ctx, {
+      element: name,
+      fieldType: textFieldType(el.text, ctx.cms),
+      required,
+      dataSource,
+      display: typeToken || (el.fontInfo ? `${el.fontInfo.size}px, weight ${el.fontInfo.weight}` : ""),
+      notes: `Design text: "${truncate(el.text, 50)}" (${el.text.trim().length} characters)`,
+    });
+    ctx.texts.push({ name, text: el.text, required });
+    return;
+  }
+
+  el.children?.forEach((child) => collectFields(child, dataSource, ctx, depth + 1));
+}
+
+function buildRequirements(component: ExtractedComponent, ctx: RuleContext): Pick<AIGeneratedContent, "endUserRequirements" | "contentAuthorRequirements"> {
+  const endUser: string[] = [];
+  const author: string[] = [];
+  const textFields = ctx.fields.filter((f) => [ctx.cms.kinds.singleLine, ctx.cms.kinds.multiLine, ctx.cms.kinds.richText].includes(f.fieldType));
+
+  [...ctx.texts].sort((a, b) => Number(b.required) - Number(a.required)).slice(0, 3)
+    .forEach((t) => endUser.push(`I can see the ${t.name} displaying "${truncate(t.text, 40)}"`));
+  ctx.images.slice(0, 2).forEach((image) => endUser.push(`I can see the ${image} image`));
+  ctx.links.slice(0, 3).forEach((l) => endUser.push(`I can click the ${l.name} link${l.destination ? ` to navigate to ${l.destination}` : ""}`));
+  ctx.lists.forEach((l) => endUser.push(`I can view the ${l.name} with ${l.count} ${l.item} items`));
+  ctx.hovers.slice(0, 2).forEach((h) => endUser.push(`I can see the ${h.name} change on hover/press`));
+  if (ctx.links.length > 0) {
+    endUser.push("I can reach every link and button using keyboard navigation, with a visible focus state");
+  }
+  if (ctx.icons > 0) {
+    endUser.push("I can understand every meaningful icon through a text label or screen reader text");
+  }
+  endUser.push(`I can see the ${component.name} adapt responsively on tablet and mobile`);
+
+  textFields.slice(0, 4).forEach((f) => author.push(`I can update the ${f.element} text`));
+  ctx.images.forEach((image) => author.push(`I can upload/change the ${image} image and its alt text`));
+  ctx.links.slice(0, 3).forEach((l) => author.push(`I can edit the link URL and text for ${l.name}`));
+  ctx.lists.forEach((l) => author.push(`I can add/remove/reorder ${l.name} items`));
+  component.sharedComponents?.forEach((s) => author.push(`I can manage the shared ${s.name} content in one place`));
+  component.properties?.forEach((p) => {
+    if (p.type === "boolean") author.push(`I can enable/disable ${p.name}`);
+    if (p.type === "variant" && p.options) author.push(`I can select the ${p.name} option (${p.options.join(", ")})`);
+  });
+  author.push("I can preview changes before publishing");
+
+  return { endUserRequirements: endUser, contentAuthorRequirements: author };
+}
+
+function buildDesignNotes(component: ExtractedComponent, ctx: RuleContext): string[] {
+  const notes: string[] = [];
+  notes.push(`${component.name} is designed at ${component.dimensions.width}x${component.dimensions.height}px${component.layout ? ` (${describeLayout(component.layout)})` : ""}`);
+  ctx.lists.filter((l) => l.layout).forEach((l) => notes.push(`${l.name} lays out its ${l.count} items: ${l.layout}`));
+  collectDesignTokens(component).slice(0, 5)
+    .forEach((t) => notes.push(`${t.usedBy.slice(0, 3).join(", ")} use ${t.name} (${t.value})`));
+  ctx.decorative.slice(0, 3).forEach((d) => notes.push(`${d.name} is decorative styling, not content: ${d.styles.join("; ")}`));
+  ctx.hovers.slice(0, 3).forEach((h) => notes.push(`${h.name}: ${h.interactions.join("; ")}`));
+  if (ctx.icons > 0) {
+    notes.push(`${ctx.icons} icon(s) are decorative SVG assets, not content fields`);
+  }
+  const pruned = component.pruned ? describePruneStats(component.pruned) : "";
+  if (pruned) {
+    notes.push(`Layers left out of the spec: ${pruned}`);
+  }
+  notes.push("Tablet and mobile behaviour was not inferred - confirm with the designer");
+  return notes;
+}
+
+function buildStories(component: ExtractedComponent, content: Pick<AIGeneratedContent, "endUserRequirements" | "contentAuthorRequirements">, ctx: RuleContext): StoryDefinition[] {
+  const stories: StoryDefinition[] = [
+    { title: `As a user, I can view the ${component.name} content`, acceptanceCriteria: content.endUserRequirements.slice(0, 4) },
+  ];
+  if (ctx.links.length > 0) {
+    stories.push({
+      title: `As a user, I can navigate using the ${component.name} links`,
+      acceptanceCriteria: content.endUserRequirements.filter((r) => r.includes("click") || r.includes("keyboard")),
+    });
+  }
+  stories.push({ title: `As a content author, I can manage the ${component.name} content`, acceptanceCriteria: content.contentAuthorRequirements.slice(0, 4) });
+  return stories;
+}
+
+// Deterministic alternative to generateContentWithAI - no API key, same output shape
+export function generateContentWithRules(component: ExtractedComponent, cms: CmsProfile = getCmsProfile()): AIGeneratedContent {
+  const ctx: RuleContext = {
+    cms,
+    sharedIds: new Set((component.sharedComponents || []).map((s) => s.id)),
+    fields: [],
+    texts: [],
+    images: [],
+    links: [],
+    lists: [],
+    hovers: [],
+    decorative: [],
+    icons: 0,
+  };
+  const dataSource = `${component.name} ${cms.terms.datasource}`;
+
+  component.properties?.filter((p) => p.type === "text").forEach((p) =>
+    addField(ctx, { element: p.name, fieldType: cms.kinds.singleLine, required: false, dataSource, display: "", notes: `Text property${p.defaultValue ? `, default "${p.defaultValue}"` : ""}` })
+  );
+  component.children.forEach((child) => collectFields(child, dataSource, ctx));
+
+  // One entry per shared component - its fields are summarised, not repeated per instance
+  component.sharedComponents?.forEach((shared) => {
+    const sharedCtx: RuleContext = { ...ctx, fields: [] };
+    shared.children.forEach((child) => collectFields(child, `Shared: ${shared.name}`, sharedCtx));
+    addField(ctx, {
+      element: shared.name,
+      fieldType: shared.instanceCount > 1 ? cms.kinds.list : cms.kinds.reference,
+      required: true,
+      dataSource: `Shared: ${shared.name}`,
+      display: `${shared.instanceCount} instance(s) in ${shared.usedIn.join(", ")}`,
+      notes: sharedCtx.fields.length > 0
+        ? `Reusable ${cms.terms.template}: ${sharedCtx.fields.map((f) => `${f.element} (${f.fieldType})`).join(", ")}`
+        : `Reusable ${cms.terms.template}${shared.variants.length > 0 ? `, variants ${shared.variants.join("; ")}` : ""}`,
+    });
+    ctx.icons = sharedCtx.icons;
+  });
+
+  const requirements = buildRequirements(component, ctx);
+  const parts = [
+    ctx.lists.length > 0 ? ctx.lists.map((l) => `${l.count} ${l.item} items`).join(", ") : "",
+    ctx.images.length > 0 ? `${ctx.images.length} image(s)` : "",
+    ctx.links.length > 0 ? `${ctx.links.length} link(s)` : "",
+  ].filter(Boolean);
+  const draft: AIGeneratedContent = {
+    description: `${component.name} is a ${component.dimensions.width}x${component.dimensions.height}px component with ${ctx.fields.length} authorable field(s)${parts.length > 0 ? `, including ${parts.join(", ")}` : ""}.`,
+    stories: buildStories(component, requirements, ctx),
+    ...requirements,
+    designNotes: buildDesignNotes(component, ctx),
+    fieldRequirements: ctx.fields,
+  };
+
+  // The validator normalises the draft and adds the same warnings as for AI output.
+  // An invalid draft fails like AI output that is still invalid after its repairs - nothing is created from it.
+  const result = validateAIContent(draft, cms);
+  if (!result.content) {
+    throw new Error(`Rule-based draft failed validation: ${result.errors.slice(0, 3).join("; ")}`);
+  }
+  const warnings = [RULES_WARNING, ...result.warnings];
+  if (ctx.fields.length === 0) {
+    warnings.push("No content fields found - layer names may be too generic for the rules");
+  }
+  return { ...result.content, warnings };
+}
+
+export function generateEpicDescriptionWithRules(componentName: string, content: AIGeneratedContent, figmaUrl: string): string {
+  const fields = content.fieldRequirements.slice(0, 8).map((f) => f.element).join(", ");
+  return `Implementation of the ${componentName} component. ${content.description}${fields ? `\n\nMain elements: ${fields}.` : ""}\n\nFigma: ${figmaUrl}`;
+}
@@ -0,0 +1,94 @@
+import { DesignTokenType, ElementToken, ExtractedComponent, ExtractedElement } from "./figma";
+
+export interface DesignToken {
+  name: string; // e.g. color/brand/primary
+  type: DesignTokenType;
+  value: string;
+  usedBy: string[]; // element names
+}
+
+// Style Dictionary token group - leaves are { value, type, comment }
+export interface StyleDictionaryGroup {
+  [key: string]: StyleDictionaryGroup | StyleDictionaryToken;
+}
+
+export interface StyleDictionaryToken {
+  value: string;
+  type: string;
+  comment?: string;
+}
+
+// Style Dictionary / W3C draft token types for each category
+const STYLE_DICTIONARY_TYPES: Record<DesignTokenType, string> = {
+  color: "color",
+  type: "typography",
+  effect: "shadow",
+  space: "dimension",
+  radius: "dimension",
+};
+
+const MAX_USED_BY = 5;
+
+// Collect every named token used in the component, de-duplicated by name
+export function collectDesignTokens(component: ExtractedComponent): DesignToken[] {
+  const tokens = new Map<string, DesignToken>();
+
+  function addTokens(elementName: string, elementTokens: ElementToken[] | undefined): void {
+    for (const token of elementTokens || []) {
+      const existing = tokens.get(token.name);
+      if (!existing) {
+        tokens.set(token.name, { name: token.name, type: token.type, value: token.value, usedBy: [elementName] });
+      } else if (!existing.usedBy.includes(elementName) && existing.usedBy.length < MAX_USED_BY) {
+        existing.usedBy.push(elementName);
+      }
+    }
+  }
+
+  function traverse(el: ExtractedElement): void {
+    addTokens(el.name, el.tokens);
+    el.children?.forEach(traverse);
+  }
+
+  addTokens(component.name, component.tokens);
+  component.children.forEach(traverse);
+  // Tokens inside instances are only extracted once, on the shared component
+  component.sharedComponents?.forEach((shared) => shared.children.forEach(traverse));
+
+  return [...tokens.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isStyleDictionaryToken(node: StyleDictionaryGroup | StyleDictionaryToken): node is StyleDictionaryToken {
+  return typeof node.value === "string";
+}
+
+// Nest tokens by their path segments, e.g. color/brand/primary -> { color: { brand: { primary: {...} } } }
+export function toStyleDictionary(tokens: DesignToken[]): StyleDictionaryGroup {
+  const root: StyleDictionaryGroup = {};
+
+  for (const token of tokens) {
+    const segments = token.name.split("/");
+    const leafKey = segments.pop()!;
+    let group: StyleDictionaryGroup | null = root;
+
+    for (const segment of segments) {
+      const next: StyleDictionaryGroup | StyleDictionaryToken = group[segment] || {};
+      // A token already sits where this group would go - skip rather than overwrite it
+      if (isStyleDictionaryToken(next)) {
+        group = null;
+        break;
+      }
+      group[segment] = next;
+      group = next;
+    }
+
+    if (group && !group[leafKey]) {
+      group[leafKey] = {
+        value: token.value,
+        type: STYLE_DICTIONARY_TYPES[token.type],
+        comment: `Used by: ${token.usedBy.join(", ")}`,
+      };
+    }
+  }
+
+  return root;
+}